@@ -5,6 +5,8 @@ import {
   getStaleData,
   markCleanupWarning,
   deleteWarnedData,
+  purgeTrash,
+  TRASH_RETENTION_DAYS,
 } from "@/lib/db";
 
 const CHANNEL_ACCESS_TOKEN = process.env.LINE_CHANNEL_ACCESS_TOKEN!;
@@ -24,6 +26,9 @@ export async function GET(req: NextRequest) {
     // 2. 次に、新たなクリーンアップ対象をチェックして通知
     await checkAndNotifyStaleData();
 
+    // 3. 最後に、保存期間を過ぎたゴミ箱の中身を完全に削除
+    await purgeExpiredTrash();
+
     return NextResponse.json({
       success: true,
       timestamp: new Date().toISOString(),
@@ -67,6 +72,20 @@ async function deleteExpiredWarnings() {
   }
 }
 
+// 保存期間を過ぎたゴミ箱の中身を完全に削除
+async function purgeExpiredTrash() {
+  console.log("[CLEANUP] Purging expired trash...");
+
+  try {
+    const purgedCount = await purgeTrash(TRASH_RETENTION_DAYS);
+    if (purgedCount > 0) {
+      console.log(`[CLEANUP] Purged ${purgedCount} items from trash`);
+    }
+  } catch (error) {
+    console.error("[CLEANUP] Error in purgeExpiredTrash:", error);
+  }
+}
+
 // 放置データをチェックして通知
 async function checkAndNotifyStaleData() {
   console.log("[CLEANUP] Checking for stale data...");
@@ -169,7 +188,7 @@ async function sendDeletionNotification(roomId: string, count: number) {
     messages: [
       {
         type: "text",
-        text: `🗑️ 自動クリーンアップ完了\n\n1ヶ月間使われなかったデータを${count}件削除しました。\n\nデータベースがスッキリしたよ✨`,
+        text: `🗑️ 自動クリーンアップ完了\n\n1ヶ月間使われなかったデータを${count}件ゴミ箱に移しました。\n\n${TRASH_RETENTION_DAYS}日間は「おぼえるくん ゴミ箱」から戻せるよ✨`,
       },
     ],
   };
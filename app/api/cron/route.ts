@@ -2,15 +2,36 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
   getDueReminders,
+  getUnansweredReminders,
+  getDueAdvanceNotices,
+  markAdvanceNoticeSent,
   rescheduleRepeatingReminder,
   getListWithItems,
   getLists,
-  updateReminderStatus,
+  markReminderNotified,
+  markReminderNagged,
+  LOW_PRIORITY_DIGEST_HOURS,
+  List,
+  Reminder,
 } from "@/lib/db";
-import { formatDateTime } from "@/lib/dateParser";
+import {
+  buildReminderNotification,
+  buildReminderDigest,
+  buildAdvanceNotice,
+} from "@/lib/flexMessage";
+import {
+  getNextOccurrence,
+  formatDateTime,
+  RepeatSchedule,
+} from "@/lib/dateParser";
 
 const CHANNEL_ACCESS_TOKEN = process.env.LINE_CHANNEL_ACCESS_TOKEN!;
 
+// LINE の push で1回に送れるメッセージ数
+const MAX_MESSAGES_PER_PUSH = 5;
+// 「見逃し」のお知らせに並べる日時の数
+const MAX_MISSED_DATES = 5;
+
 export async function GET(req: NextRequest) {
   const authHeader = req.headers.get("authorization");
   if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
@@ -30,53 +51,35 @@ export async function GET(req: NextRequest) {
     const dueReminders = await getDueReminders();
     console.log(`[CRON] Found ${dueReminders.length} due reminders`);
 
-    for (const reminder of dueReminders) {
+    // 優先度「低」はまとめてお知らせする時刻まで待つ
+    const jstHour = new Date(now.getTime() + 9 * 60 * 60 * 1000).getUTCHours();
+    const isDigestTime = LOW_PRIORITY_DIGEST_HOURS.includes(jstHour);
+    const lowReminders = dueReminders.filter(
+      (reminder) => reminder.priority === "low"
+    );
+    const immediateReminders = dueReminders.filter(
+      (reminder) => reminder.priority !== "low"
+    );
+
+    for (const reminder of immediateReminders) {
       try {
         console.log(
           `[CRON] Processing reminder ${reminder.id}: ${reminder.message}`
         );
         console.log(`[CRON] Remind at: ${reminder.remind_at} (UTC)`);
 
-        let message = `⏰ リマインダー\n\n${reminder.message}`;
-
-        const lists = await getLists(reminder.room_id);
-        const matchedLists = [];
-
-        for (const list of lists) {
-          if (reminder.message.includes(list.list_name)) {
-            const listWithItems = await getListWithItems(
-              reminder.room_id,
-              list.list_name
-            );
-            if (
-              listWithItems &&
-              listWithItems.items &&
-              listWithItems.items.length > 0
-            ) {
-              matchedLists.push(listWithItems);
-            }
-          }
-        }
-
-        if (matchedLists.length > 0) {
-          message += "\n\n📋 関連リスト\n";
-          for (const list of matchedLists) {
-            message += `\n【${list.list_name}】\n`;
-            const items = list
-              .items!.map((item) => `  ・${item.item_text}`)
-              .join("\n");
-            message += items + "\n";
-          }
-        }
-
-        await sendReminderWithSnooze(reminder.room_id, message, reminder.id);
+        const matchedLists = await findRelatedLists(reminder);
+        await sendReminderWithSnooze(reminder, matchedLists);
 
         // ステータスを 'pending' (アクション待ち) に変更
-        await updateReminderStatus(reminder.id, "pending");
+        await markReminderNotified(reminder.id);
 
-        // 繰り返しパターンがある場合のみ次回をスケジュール
+        // 繰り返しパターンがある場合のみ次回をスケジュール（止まっていた間の回は飛ばす）
         if (reminder.repeat_pattern) {
-          await rescheduleRepeatingReminder(reminder);
+          const schedule = await scheduleNextOccurrence(reminder, now);
+          if (schedule.missed.length > 0) {
+            await sendMissedOccurrences(reminder, matchedLists, schedule);
+          }
         }
 
         console.log(
@@ -87,9 +90,82 @@ export async function GET(req: NextRequest) {
       }
     }
 
+    // 「1日前」「1時間前」などの事前通知
+    const advanceNotices = await getDueAdvanceNotices();
+    for (const { reminder, leadMinutes } of advanceNotices) {
+      try {
+        const matchedLists = await findRelatedLists(reminder);
+        await pushMessages(reminder.room_id, [
+          buildAdvanceNotice(reminder, leadMinutes, matchedLists),
+        ]);
+        await markAdvanceNoticeSent(reminder.id, leadMinutes);
+        console.log(
+          `[CRON] Sent advance notice (${leadMinutes} min) for reminder ${reminder.id}`
+        );
+      } catch (error) {
+        console.error(
+          `[CRON] Failed to send advance notice for reminder ${reminder.id}:`,
+          error
+        );
+      }
+    }
+
+    // 完了（かスヌーズ）されるまで催促する（優先度「高」か催促の設定があるもの。上限を決めていない優先度「高」は完了するまで）
+    const unanswered = await getUnansweredReminders();
+    for (const { reminder, nagMax } of unanswered) {
+      try {
+        const nagCount = (reminder.nag_count ?? 0) + 1;
+        const matchedLists = await findRelatedLists(reminder);
+        await sendReminderWithSnooze(reminder, matchedLists, {
+          count: nagCount,
+          max: nagMax,
+        });
+        await markReminderNagged(reminder.id);
+        console.log(
+          `[CRON] Nagged reminder ${reminder.id} (${nagCount}/${nagMax ?? "-"})`
+        );
+      } catch (error) {
+        console.error(`[CRON] Failed to nag reminder ${reminder.id}:`, error);
+      }
+    }
+
+    // 優先度「低」はトークごとに1通にまとめて送る
+    let digested = 0;
+    if (isDigestTime && lowReminders.length > 0) {
+      const byRoom = new Map<string, Reminder[]>();
+      for (const reminder of lowReminders) {
+        byRoom.set(reminder.room_id, [
+          ...(byRoom.get(reminder.room_id) || []),
+          reminder,
+        ]);
+      }
+
+      for (const [roomId, reminders] of byRoom) {
+        try {
+          await pushMessages(roomId, [buildReminderDigest(reminders)]);
+          for (const reminder of reminders) {
+            await markReminderNotified(reminder.id);
+            // まとめてのお知らせなので、見逃した回は飛ばすだけ
+            if (reminder.repeat_pattern) {
+              await scheduleNextOccurrence(reminder, now);
+            }
+          }
+          digested += reminders.length;
+          console.log(
+            `[CRON] Sent digest of ${reminders.length} low priority reminders to ${roomId}`
+          );
+        } catch (error) {
+          console.error(`[CRON] Failed to send digest to ${roomId}:`, error);
+        }
+      }
+    }
+
     return NextResponse.json({
       success: true,
-      processed: dueReminders.length,
+      processed: immediateReminders.length,
+      nagged: unanswered.length,
+      advanceNotified: advanceNotices.length,
+      digested,
       timestamp: now.toISOString(),
     });
   } catch (error) {
@@ -101,57 +177,121 @@ export async function GET(req: NextRequest) {
   }
 }
 
-async function sendReminderWithSnooze(
-  roomId: string,
-  message: string,
-  reminderId: number
+// 繰り返しの次の回をスケジュール（回数・期限が終わったら繰り返しをやめる）
+async function scheduleNextOccurrence(
+  reminder: Reminder,
+  now: Date
+): Promise<RepeatSchedule> {
+  const schedule = getNextOccurrence(
+    reminder.repeat_pattern,
+    new Date(reminder.remind_at),
+    now
+  );
+  if (schedule.missed.length > 0) {
+    console.log(
+      `[CRON] Skipped ${schedule.missed.length} missed occurrences of reminder ${reminder.id}`
+    );
+  }
+  if (!schedule.next) {
+    console.log(`[CRON] Repeat finished for reminder ${reminder.id}`);
+  }
+  await rescheduleRepeatingReminder(reminder.id, schedule.next);
+  return schedule;
+}
+
+// 止まっていた間に過ぎてしまった繰り返しの回を知らせる
+// summary: 「見逃し」としてまとめて1回 / catch_up: 見逃した回も1回ずつ
+async function sendMissedOccurrences(
+  reminder: Reminder,
+  relatedLists: List[],
+  schedule: RepeatSchedule
 ) {
-  const pushMessage = {
-    to: roomId,
-    messages: [
-      {
+  const { missed, next } = schedule;
+
+  if (reminder.missed_policy === "catch_up") {
+    // 送りきれない分は件数だけ知らせる
+    const fits = missed.length <= MAX_MESSAGES_PER_PUSH;
+    const shown = fits ? missed : missed.slice(0, MAX_MESSAGES_PER_PUSH - 1);
+    const messages: any[] = shown.map((remindAt) =>
+      buildReminderNotification(
+        { ...reminder, remind_at: remindAt },
+        relatedLists
+      )
+    );
+    if (!fits) {
+      messages.push({
         type: "text",
-        text: message,
-      },
-      {
-        type: "template",
-        altText: "スヌーズしますか?",
-        template: {
-          type: "buttons",
-          text: "このリマインダーをスヌーズしますか?",
-          actions: [
-            {
-              type: "postback",
-              label: "⏰ 30分後",
-              data: `action=snooze&reminder_id=${reminderId}&minutes=30`,
-            },
-            {
-              type: "postback",
-              label: "⏰ 1時間後",
-              data: `action=snooze&reminder_id=${reminderId}&minutes=60`,
-            },
-            {
-              type: "postback",
-              label: "⏰ 3時間後",
-              data: `action=snooze&reminder_id=${reminderId}&minutes=180`,
-            },
-            {
-              type: "postback",
-              label: "✅ 完了",
-              data: `action=complete&reminder_id=${reminderId}`,
-            },
-          ],
-        },
-      },
-    ],
-  };
+        text: `📭 ほかにも【${reminder.message}】を${
+          missed.length - shown.length
+        }回分見逃していたよ🙏`,
+      });
+    }
+    await pushMessages(reminder.room_id, messages);
+    return;
+  }
+
+  let text = "━━━━━━━━━━━━━━\n";
+  text += "📭 見逃しのお知らせ\n";
+  text += "━━━━━━━━━━━━━━\n\n";
+  text += `【${reminder.message}】\nお知らせが止まっていた間に${missed.length}回分が過ぎちゃった🙏\n\n`;
+  text += missed
+    .slice(0, MAX_MISSED_DATES)
+    .map((remindAt) => `・${formatDateTime(remindAt)}`)
+    .join("\n");
+  if (missed.length > MAX_MISSED_DATES) {
+    text += `\n・…ほか${missed.length - MAX_MISSED_DATES}回`;
+  }
+  text += next
+    ? `\n\n次は${formatDateTime(next.remindAt)}にお知らせするよ⏰`
+    : "\n\n繰り返しはこれでおしまいだよ👋";
+
+  await pushMessages(reminder.room_id, [{ type: "text", text }]);
+}
+
+// リマインド文に名前が含まれるリスト（未チェックのアイテムがあるものだけ）
+async function findRelatedLists(reminder: Reminder): Promise<List[]> {
+  // ほかのトークから共有されたリストも名前で見つかる
+  const lists = await getLists(reminder.room_id);
+  const matchedLists: List[] = [];
+
+  for (const list of lists) {
+    if (reminder.message.includes(list.list_name)) {
+      const listWithItems = await getListWithItems(
+        reminder.room_id,
+        list.list_name
+      );
+      // チェック済み（買った・済んだ）アイテムは通知に含めない
+      const remainingItems = (listWithItems?.items || []).filter(
+        (item) => !item.is_checked
+      );
+      if (listWithItems && remainingItems.length > 0) {
+        listWithItems.items = remainingItems;
+        matchedLists.push(listWithItems);
+      }
+    }
+  }
+
+  return matchedLists;
+}
+
+// リマインド通知（スヌーズ・完了ボタン付きのカード）を送信
+async function sendReminderWithSnooze(
+  reminder: Reminder,
+  relatedLists: List[],
+  nag?: { count: number; max: number | null }
+) {
+  await pushMessages(reminder.room_id, [
+    buildReminderNotification(reminder, relatedLists, nag),
+  ]);
+}
 
+async function pushMessages(to: string, messages: any[]) {
   await fetch("https://api.line.me/v2/bot/message/push", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${CHANNEL_ACCESS_TOKEN}`,
     },
-    body: JSON.stringify(pushMessage),
+    body: JSON.stringify({ to, messages }),
   });
 }
@@ -6,7 +6,7 @@ import {
   addItemsToList,
   getListWithItems,
   deleteList,
-  deleteItemFromList,
+  deleteItemsFromList,
   getReminders,
   createReminder,
   deleteReminder,
@@ -20,8 +20,12 @@ import {
   parseDateTime,
   formatDateTime,
   getRelativeTime,
-  parseRepeatPattern,
+  parseRepeat,
+  alignToRepeatPattern,
+  describeRepeatPattern,
 } from "@/lib/dateParser";
+import { tokenizeCommand, restOfCommand, quoteArg } from "@/lib/commandParser";
+import { isSameText } from "@/lib/textNormalizer";
 
 const CHANNEL_SECRET = process.env.LINE_CHANNEL_SECRET!;
 const CHANNEL_ACCESS_TOKEN = process.env.LINE_CHANNEL_ACCESS_TOKEN!;
@@ -101,12 +105,19 @@ export async function POST(req: NextRequest) {
         }
       } else if (action === "complete") {
         const reminderId = parseInt(data.get("reminder_id") || "0");
+        // scope のない古いカードは、繰り返しごと終わらないよう通知のカードと同じ扱い
+        const scope = data.get("scope") === "series" ? "series" : "occurrence";
         try {
-          await completeReminder(reminderId);
+          const completed = await completeReminder(reminderId, scope);
           replyMessages = [
             {
               type: "text",
-              text: "✅ リマインダーを完了にしたよ！お疲れさま 🎉",
+              text:
+                completed === "occurrence"
+                  ? "✅ 今回の分を完了にしたよ！お疲れさま 🎉\n次の回もまたお知らせするね🔄"
+                  : completed === "already"
+                  ? "✅ これはもう完了しているよ👍"
+                  : "✅ リマインダーを完了にしたよ！お疲れさま 🎉",
             },
           ];
         } catch (error) {
@@ -230,7 +241,8 @@ async function processMessage(roomId: string, message: string): Promise<any[]> {
     try {
       const list = await getListWithItems(roomId, roomState.listName!);
       if (list) {
-        const addedItems = await addItemsToList(list.id, items);
+        const { added, merged } = await addItemsToList(list.id, items);
+        const addedItems = [...added, ...merged];
         roomStates.delete(roomId);
 
         const itemList = addedItems
@@ -239,7 +251,11 @@ async function processMessage(roomId: string, message: string): Promise<any[]> {
         return [
           {
             type: "text",
-            text: `やったね！【${roomState.listName}】に追加完了だよ✨\n\n＜追加されたアイテム＞\n${itemList}\n\n「おぼえるくん ${roomState.listName}」で全部の中身も確認できるよ！`,
+            text: `やったね！【${
+              roomState.listName
+            }】に追加完了だよ✨\n\n＜追加されたアイテム＞\n${itemList}\n\n「おぼえるくん ${quoteArg(
+              roomState.listName!
+            )}」で全部の中身も確認できるよ！`,
           },
         ];
       } else {
@@ -286,7 +302,7 @@ async function processListCommand(
   roomId: string,
   message: string
 ): Promise<any[]> {
-  const parts = message.split(/\s+/);
+  const parts = tokenizeCommand(message);
 
   // 「おぼえるくん」のみ
   if (parts.length === 1) {
@@ -334,7 +350,7 @@ async function processListCommand(
             data: `action=show_list&list_name=${encodeURIComponent(
               list.list_name
             )}`,
-            displayText: `おぼえるくん ${list.list_name}`,
+            displayText: `おぼえるくん ${quoteArg(list.list_name)}`,
           },
         })),
       };
@@ -369,7 +385,14 @@ async function processListCommand(
     const itemName = parts.slice(2, -1).join(" ");
 
     try {
-      const deleted = await deleteItemFromList(roomId, listName, itemName);
+      // アイテム名の完全一致で削除（部分一致だと別のアイテムを消しかねない）
+      const list = await getListWithItems(roomId, listName);
+      const targetIds = (list?.items || [])
+        .filter((item) => isSameText(item.item_text, itemName))
+        .map((item) => item.id);
+      const deleted =
+        targetIds.length > 0 &&
+        (await deleteItemsFromList(roomId, listName, targetIds)) > 0;
       if (deleted) {
         const updatedList = await getListWithItems(roomId, listName);
         if (updatedList && updatedList.items && updatedList.items.length > 0) {
@@ -386,7 +409,9 @@ async function processListCommand(
           return [
             {
               type: "text",
-              text: `「${itemName}」を削除したら、【${listName}】が空になっちゃった😅\n新しいアイテムを追加するなら「おぼえるくん ${listName} 追加」だよ！`,
+              text: `「${itemName}」を削除したら、【${listName}】が空になっちゃった😅\n新しいアイテムを追加するなら「おぼえるくん ${quoteArg(
+                listName
+              )} 追加」だよ！`,
             },
           ];
         }
@@ -394,7 +419,9 @@ async function processListCommand(
         return [
           {
             type: "text",
-            text: `あれ？「${itemName}」が【${listName}】に見つからなかった🤔\n「おぼえるくん ${listName}」で中身を確認してみて！`,
+            text: `あれ？「${itemName}」が【${listName}】に見つからなかった🤔\n「おぼえるくん ${quoteArg(
+              listName
+            )}」で中身を確認してみて！`,
           },
         ];
       }
@@ -484,7 +511,9 @@ async function showListDetails(
       return [
         {
           type: "text",
-          text: `【${listName}】はまだ空っぽだよ～📝\n「おぼえるくん ${listName} 追加」でアイテムを入れてみよう！`,
+          text: `【${listName}】はまだ空っぽだよ～📝\n「おぼえるくん ${quoteArg(
+            listName
+          )} 追加」でアイテムを入れてみよう！`,
         },
       ];
     }
@@ -509,7 +538,7 @@ async function showListDetails(
             data: `action=add_to_list&list_name=${encodeURIComponent(
               listName
             )}`,
-            displayText: `おぼえるくん ${listName} 追加`,
+            displayText: `おぼえるくん ${quoteArg(listName)} 追加`,
           },
         },
         {
@@ -520,7 +549,7 @@ async function showListDetails(
             data: `action=delete_list&list_name=${encodeURIComponent(
               listName
             )}`,
-            displayText: `おぼえるくん ${listName} 削除`,
+            displayText: `おぼえるくん ${quoteArg(listName)} 削除`,
           },
         },
         {
@@ -557,7 +586,7 @@ async function processReminderCommand(
   roomId: string,
   message: string
 ): Promise<any[]> {
-  const parts = message.split(/\s+/);
+  const parts = tokenizeCommand(message);
 
   // 「おしえてくん」のみ
   if (parts.length === 1) {
@@ -612,7 +641,7 @@ async function processReminderCommand(
             data: `action=show_reminder&reminder_name=${encodeURIComponent(
               reminder.reminder_name
             )}`,
-            displayText: `おしえてくん ${reminder.reminder_name}`,
+            displayText: `おしえてくん ${quoteArg(reminder.reminder_name)}`,
           },
         })),
       };
@@ -691,14 +720,10 @@ async function processReminderCommand(
   if (parts.length >= 4) {
     const dateStr = parts[1];
     const timeStr = parts[2];
-    const taskParts = parts.slice(3);
 
-    // 繰り返しパターンを検出
-    const fullMessage = taskParts.join(" ");
-    const repeatPattern = parseRepeatPattern(fullMessage);
-    const task = fullMessage
-      .replace(/毎日|毎週|毎月|まいにち|まいしゅう|まいつき/g, "")
-      .trim();
+    // 繰り返しパターンを検出（用件はカッコも含めて入力のまま使う）
+    const fullMessage = restOfCommand(message, 3);
+    const { pattern: repeatPattern, text: task } = parseRepeat(fullMessage);
 
     console.log(`[REMINDER] Parsing: ${dateStr} ${timeStr}`);
     const parsed = parseDateTime(dateStr, timeStr);
@@ -720,6 +745,9 @@ async function processReminderCommand(
       ];
     }
 
+    // 「毎週月水金」なら最初の回もその曜日に合わせる
+    const remindAt = alignToRepeatPattern(repeatPattern, parsed.date);
+
     try {
       // リマインダー名は用件の最初の20文字程度
       const reminderName = task.substring(0, 20);
@@ -728,7 +756,7 @@ async function processReminderCommand(
         roomId,
         reminderName,
         task,
-        remindAt: parsed.date.toISOString(),
+        remindAt: remindAt.toISOString(),
         repeatPattern,
       });
 
@@ -736,7 +764,7 @@ async function processReminderCommand(
         roomId,
         reminderName,
         task,
-        parsed.date,
+        remindAt,
         repeatPattern || undefined
       );
 
@@ -746,21 +774,17 @@ async function processReminderCommand(
       confirmText += "⏰ リマインダーを設定したよ！\n";
       confirmText += "━━━━━━━━━━━━━━\n\n";
       confirmText += `＜いつ＞\n  ${formatDateTime(
-        parsed.date
-      )} (${getRelativeTime(parsed.date)})\n\n`;
+        remindAt
+      )} (${getRelativeTime(remindAt)})\n\n`;
       confirmText += `＜用件＞\n  ${task}\n\n`;
       confirmText += `＜デバッグ情報＞\n  リマインダーID: ${
         createdReminder.id
-      }\n  保存日時(UTC): ${parsed.date.toISOString()}\n\n`;
+      }\n  保存日時(UTC): ${remindAt.toISOString()}\n\n`;
 
       if (repeatPattern) {
-        const repeatText =
-          repeatPattern === "daily"
-            ? "毎日"
-            : repeatPattern === "weekly"
-            ? "毎週"
-            : "毎月";
-        confirmText += `＜繰り返し＞\n  ${repeatText} 🔄\n\n`;
+        confirmText += `＜繰り返し＞\n  ${describeRepeatPattern(
+          repeatPattern
+        )} 🔄\n\n`;
       }
 
       // リスト名が含まれているかチェック
@@ -848,7 +872,7 @@ async function showReminderDetails(
             data: `action=delete_reminder&reminder_name=${encodeURIComponent(
               reminderName
             )}`,
-            displayText: `おしえてくん ${reminderName} 削除`,
+            displayText: `おしえてくん ${quoteArg(reminderName)} 削除`,
           },
         },
         {
@@ -941,6 +965,9 @@ async function showHelp(): Promise<any[]> {
     
   ・一覧表示後はボタンで簡単操作！
 
+  ・スペースを含む名前は「」で囲んでね
+    例：おぼえるくん 「週末 キャンプ」 追加
+
 ━━━━━━━━━━━━━━
 
 困ったときはいつでも
@@ -6,7 +6,26 @@ import {
   addItemsToList,
   getListWithItems,
   deleteList,
-  deleteItemFromList,
+  deleteItemsFromList,
+  setItemsChecked,
+  setItemsSection,
+  updateListItem,
+  assignItems,
+  getAssignedItems,
+  clearCheckedItems,
+  renameList,
+  moveItemsToList,
+  getListOrder,
+  setListOrder,
+  setListPinned,
+  moveListPosition,
+  getTemplates,
+  saveListAsTemplate,
+  cloneList,
+  deleteTemplate,
+  createShareCode,
+  joinSharedList,
+  unshareList,
   getReminders,
   createReminder,
   deleteReminder,
@@ -21,18 +40,101 @@ import {
   getListsByIds,
   deleteStaleDataByIds,
   markCleanupWarning,
+  getTrash,
+  restoreFromTrash,
+  undoLastOperation,
+  searchRoom,
+  TRASH_RETENTION_DAYS,
+  HIGH_PRIORITY_RENOTIFY_MINUTES,
+  DEFAULT_NAG_INTERVAL_MINUTES,
+  getRoomNagPolicy,
+  setRoomNagPolicy,
+  setReminderNagPolicy,
+  LOW_PRIORITY_DIGEST_HOURS,
+  JournalEntry,
+  List,
+  ListItem,
+  ListOrder,
+  TrashEntry,
+  UnshareListResult,
 } from "@/lib/db";
 import {
   parseDateTime,
   formatDateTime,
   getRelativeTime,
-  parseRepeatPattern,
+  parseRepeat,
+  alignToRepeatPattern,
+  describeRepeatPattern,
 } from "@/lib/dateParser";
+import { tokenizeCommand, restOfCommand, quoteArg } from "@/lib/commandParser";
 import { parseNumbers } from "@/lib/numberParser";
+import { formatItem } from "@/lib/itemParser";
+import {
+  buildListMessage,
+  buildReminderMessage,
+  buildReminderListMessage,
+  priorityLabel,
+  priorityMark,
+  missedPolicyLabel,
+  advanceNoticesLabel,
+  leadTimeLabel,
+  nagPolicyLabel,
+  repeatLabel,
+} from "@/lib/flexMessage";
+import { isSameText } from "@/lib/textNormalizer";
+import { fitMessages } from "@/lib/messageSplitter";
+import { parseImportedLines } from "@/lib/importParser";
+import {
+  exportList,
+  parseExportFormat,
+  EXPORT_FORMAT_LABELS,
+  ExportFormat,
+} from "@/lib/listExporter";
+import { isConfidentMatch, resolveName } from "@/lib/nameResolver";
+import {
+  parseReminderChanges,
+  parsePriority,
+  parseMissedPolicy,
+  parseAdvanceNotices,
+  parseNagPolicy,
+  ReminderChanges,
+} from "@/lib/reminderParser";
 
 const CHANNEL_SECRET = process.env.LINE_CHANNEL_SECRET!;
 const CHANNEL_ACCESS_TOKEN = process.env.LINE_CHANNEL_ACCESS_TOKEN!;
 
+// リストアイテムへの操作（番号指定・アイテム名指定で共通）
+type ItemAction = "delete" | "check" | "uncheck";
+
+const ITEM_ACTION_LABELS: Record<ItemAction, string> = {
+  delete: "削除",
+  check: "チェック",
+  uncheck: "チェック解除",
+};
+
+// メッセージを送ったメンバーの情報（担当者の記録に使う）
+interface Sender {
+  userId?: string;
+  sourceType: string;
+  mentionedUserIds: string[];
+}
+
+// 「おぼえるくん 並び順」で指定する名前
+const LIST_ORDER_LABELS: Record<ListOrder, string> = {
+  created: "作成順",
+  recent: "よく使う順",
+  manual: "手動",
+};
+
+// 「おぼえるくん 一覧」の1ページに出すリスト数（クイックリプライは最大13個なので、もっと見る・テンプレ用の枠を残す）
+const LIST_INDEX_PAGE_SIZE = 11;
+
+// 検索結果で種類ごとに表示する最大件数
+const SEARCH_RESULT_LIMIT = 20;
+
+// 「おしえてくん 履歴」の1ページに出す件数
+const HISTORY_PAGE_SIZE = 10;
+
 // ルーム（グループ/個人チャット）の状態を管理
 const roomStates = new Map<
   string,
@@ -40,7 +142,15 @@ const roomStates = new Map<
     waitingFor: string;
     listName?: string;
     reminderName?: string;
-    deleteTargets?: { type: "reminder" | "list"; ids: number[]; items: any[] };
+    templateName?: string;
+    itemId?: number;
+    itemAction?: ItemAction;
+    deleteTargets?: {
+      type: "reminder" | "list" | "item";
+      ids: number[];
+      items: any[];
+    };
+    trashEntries?: TrashEntry[];
     cleanupData?: any;
   }
 >();
@@ -70,7 +180,15 @@ export async function POST(req: NextRequest) {
       const roomId =
         event.source.groupId || event.source.roomId || event.source.userId;
 
-      let replyMessages = await processMessage(roomId, userMessage);
+      const sender: Sender = {
+        userId: event.source.userId,
+        sourceType: event.source.type,
+        mentionedUserIds: (event.message.mention?.mentionees || [])
+          .map((mentionee: any) => mentionee.userId)
+          .filter((userId?: string) => !!userId),
+      };
+
+      let replyMessages = await processMessage(roomId, userMessage, sender);
 
       if (!replyMessages || replyMessages.length === 0) continue;
 
@@ -82,7 +200,7 @@ export async function POST(req: NextRequest) {
         },
         body: JSON.stringify({
           replyToken: replyToken,
-          messages: replyMessages,
+          messages: fitMessages(replyMessages),
         }),
       });
     }
@@ -103,9 +221,9 @@ export async function POST(req: NextRequest) {
         const minutes = parseInt(data.get("minutes") || "10");
         try {
           await snoozeReminder(reminderId, minutes);
-          replyMessages = [
+          replyMessages = withUndoButton([
             { type: "text", text: `⏰ ${minutes}分後にまたリマインドするね！` },
-          ];
+          ]);
         } catch (error) {
           console.error("Snooze error:", error);
           replyMessages = [
@@ -114,12 +232,19 @@ export async function POST(req: NextRequest) {
         }
       } else if (action === "complete") {
         const reminderId = parseInt(data.get("reminder_id") || "0");
+        // scope のない古いカードは、繰り返しごと終わらないよう通知のカードと同じ扱い
+        const scope = data.get("scope") === "series" ? "series" : "occurrence";
         try {
-          await completeReminder(reminderId);
+          const completed = await completeReminder(reminderId, scope);
           replyMessages = [
             {
               type: "text",
-              text: "✅ リマインダーを完了にしたよ！お疲れさま 🎉",
+              text:
+                completed === "occurrence"
+                  ? "✅ 今回の分を完了にしたよ！お疲れさま 🎉\n次の回もまたお知らせするね🔄"
+                  : completed === "already"
+                  ? "✅ これはもう完了しているよ👍"
+                  : "✅ リマインダーを完了にしたよ！お疲れさま 🎉",
             },
           ];
         } catch (error) {
@@ -129,10 +254,26 @@ export async function POST(req: NextRequest) {
           ];
         }
       }
-      // リスト表示
+      // リスト表示（page があれば「もっと見る」の続き）
       else if (action === "show_list") {
         const listName = data.get("list_name") || "";
-        replyMessages = await showListDetails(roomId, listName);
+        const page = parseInt(data.get("page") || "0");
+        replyMessages = await showListDetails(roomId, listName, page);
+      }
+      // リスト一覧の続き
+      else if (action === "list_index") {
+        const page = parseInt(data.get("page") || "0");
+        replyMessages = await showListIndex(roomId, page);
+      }
+      // リマインダー一覧の続き
+      else if (action === "reminder_index") {
+        const page = parseInt(data.get("page") || "0");
+        replyMessages = await showReminderIndex(roomId, page);
+      }
+      // リマインダー履歴の続き
+      else if (action === "reminder_history") {
+        const page = parseInt(data.get("page") || "0");
+        replyMessages = await showReminderHistory(roomId, page);
       }
       // リスト追加
       else if (action === "add_to_list") {
@@ -141,22 +282,52 @@ export async function POST(req: NextRequest) {
         replyMessages = [
           {
             type: "text",
-            text: `【${listName}】に追加したいものを教えてね～📝\n改行で区切って複数のアイテムを一度に追加できるよ！\n\n例：\nネギ\nキャベツ\nひき肉`,
+            text: `【${listName}】に追加したいものを教えてね～📝\n改行で区切って複数のアイテムを一度に追加できるよ！（レシピの貼り付けもOK）\n数量やメモ、「野菜:」のように売り場も書けるよ（同じものは数量が増えるよ）\n\n例：\n野菜: ネギ\n野菜: キャベツ 1玉\n肉: ひき肉 300g（豚）`,
           },
         ];
       }
-      // リスト削除
+      // リスト削除（ボタンを押し間違えても消えないように確認する）
       else if (action === "delete_list") {
+        const listName = data.get("list_name") || "";
+        replyMessages = [
+          {
+            type: "template",
+            altText: `【${listName}】を削除する？`,
+            template: {
+              type: "confirm",
+              text: `【${listName}】を削除してもいい？\n（ゴミ箱から戻せるよ）`,
+              actions: [
+                {
+                  type: "postback",
+                  label: "🗑️ 削除する",
+                  data: `action=confirm_delete_list&list_name=${encodeURIComponent(
+                    listName
+                  )}`,
+                  displayText: `おぼえるくん ${quoteArg(listName)} 削除`,
+                },
+                {
+                  type: "postback",
+                  label: "やめる",
+                  data: `action=show_list&list_name=${encodeURIComponent(
+                    listName
+                  )}`,
+                  displayText: "やめる",
+                },
+              ],
+            },
+          },
+        ];
+      } else if (action === "confirm_delete_list") {
         const listName = data.get("list_name") || "";
         try {
           const deleted = await deleteList(roomId, listName);
           if (deleted) {
-            replyMessages = [
+            replyMessages = withUndoButton([
               {
                 type: "text",
-                text: `【${listName}】を完全に削除したよ🗑️\nまた新しいリストが必要になったらいつでも作ってね！`,
+                text: `【${listName}】をゴミ箱に移したよ🗑️\n間違えたときは「おぼえるくん ゴミ箱」から戻せるよ！`,
               },
-            ];
+            ]);
           } else {
             replyMessages = [
               {
@@ -171,23 +342,97 @@ export async function POST(req: NextRequest) {
           ];
         }
       }
+      // アイテムのチェック / チェック解除
+      else if (action === "check_item" || action === "uncheck_item") {
+        const listName = data.get("list_name") || "";
+        const itemId = parseInt(data.get("item_id") || "0");
+        replyMessages = await toggleItemCheck(
+          roomId,
+          listName,
+          itemId,
+          action === "check_item"
+        );
+      }
+      // アイテムを1つ削除（カードの🗑️ボタン）
+      else if (action === "delete_item") {
+        const listName = data.get("list_name") || "";
+        const itemId = parseInt(data.get("item_id") || "0");
+        replyMessages = await applyItemAction(
+          roomId,
+          listName,
+          [itemId],
+          "delete"
+        );
+      }
+      // テンプレート一覧（テンプレートから作成）
+      else if (action === "show_templates") {
+        replyMessages = await showTemplates(roomId);
+      }
+      // テンプレートを選んだら新しいリスト名の入力待ち
+      else if (action === "use_template") {
+        const templateName = data.get("template_name") || "";
+        roomStates.set(roomId, { waitingFor: "newListName", templateName });
+        replyMessages = [
+          {
+            type: "text",
+            text: `📑 テンプレート【${templateName}】から新しいリストを作るよ！\n新しいリストの名前を教えてね📝\n\nキャンセルする場合は「キャンセル」って送ってね。`,
+          },
+        ];
+      }
+      // 番号でアイテムを選んで操作
+      else if (action === "select_items") {
+        const listName = data.get("list_name") || "";
+        const mode = data.get("mode") as ItemAction;
+        if (mode in ITEM_ACTION_LABELS) {
+          replyMessages = await startItemSelection(roomId, listName, mode);
+        }
+      }
+      // アイテム編集（番号の入力待ちにする）
+      else if (action === "edit_item") {
+        const listName = data.get("list_name") || "";
+        replyMessages = await startItemEdit(roomId, listName);
+      }
+      // リストのピン留め・ピン留め解除
+      else if (action === "pin_list") {
+        const listName = data.get("list_name") || "";
+        const pinned = data.get("pinned") === "1";
+        replyMessages = await pinListCommand(roomId, listName, pinned);
+      }
+      // チェック済みアイテムの一括削除
+      else if (action === "clear_checked") {
+        const listName = data.get("list_name") || "";
+        replyMessages = await clearCheckedAndShow(roomId, listName);
+      }
+      // 直前の操作を元に戻す
+      else if (action === "undo") {
+        replyMessages = await undoCommand(roomId);
+      }
+      // ゴミ箱から戻す（番号の入力待ちにする）
+      else if (action === "restore_trash") {
+        replyMessages = await startTrashRestore(roomId);
+      }
       // リマインダー表示
       else if (action === "show_reminder") {
         const reminderName = data.get("reminder_name") || "";
         replyMessages = await showReminderDetails(roomId, reminderName);
       }
+      // リマインダー変更（変更内容の入力待ちにする）
+      else if (action === "edit_reminder") {
+        const reminderName = data.get("reminder_name") || "";
+        replyMessages = startReminderEdit(roomId, reminderName);
+      }
       // リマインダー削除
       else if (action === "delete_reminder") {
         const reminderName = data.get("reminder_name") || "";
         try {
           const deleted = await deleteReminder(roomId, reminderName);
           if (deleted) {
-            replyMessages = [
+            replyMessages = withUndoButton([
               {
                 type: "text",
-                text: `【${reminderName}】のリマインダーを削除したよ🗑️`,
+                text: `【${reminderName}】のリマインダーをゴミ箱に移したよ🗑️\n間違えたときは「おしえてくん ゴミ箱」から戻せるよ！`,
               },
-            ];
+            ]);
           } else {
             replyMessages = [
               {
@@ -218,13 +463,17 @@ export async function POST(req: NextRequest) {
             .filter((id) => !isNaN(id)) || [];
 
         try {
-          const result = await deleteStaleDataByIds(reminderIds, listIds);
-          replyMessages = [
+          const result = await deleteStaleDataByIds(
+            roomId,
+            reminderIds,
+            listIds
+          );
+          replyMessages = withUndoButton([
             {
               type: "text",
-              text: `🗑️ クリーンアップ完了！\n\n削除したデータ:\n・リマインダー: ${result.reminders}件\n・リスト: ${result.lists}件\n\nデータベースがスッキリしたよ✨`,
+              text: `🗑️ クリーンアップ完了！\n\n削除したデータ:\n・リマインダー: ${result.reminders}件\n・リスト: ${result.lists}件\n\n${TRASH_RETENTION_DAYS}日間はゴミ箱から戻せるよ✨`,
             },
-          ];
+          ]);
         } catch (error) {
           console.error("Cleanup all error:", error);
           replyMessages = [
@@ -339,7 +588,7 @@ export async function POST(req: NextRequest) {
           },
           body: JSON.stringify({
             replyToken: replyToken,
-            messages: replyMessages,
+            messages: fitMessages(replyMessages),
           }),
         });
       }
@@ -349,13 +598,18 @@ export async function POST(req: NextRequest) {
   return NextResponse.json({ message: "ok" });
 }
 
-async function processMessage(roomId: string, message: string): Promise<any[]> {
+async function processMessage(
+  roomId: string,
+  message: string,
+  sender: Sender
+): Promise<any[]> {
   // ルームが入力待ち状態かチェック
   const roomState = roomStates.get(roomId);
 
   // リスト追加の入力待ち
   if (roomState?.waitingFor === "items") {
-    const items = message.split("\n").filter((item) => item.trim());
+    // レシピなどを貼り付けたときの「・」「1.」や見出し行は取り除く
+    const items = parseImportedLines(message);
 
     if (items.length === 0) {
       roomStates.delete(roomId);
@@ -370,18 +624,38 @@ async function processMessage(roomId: string, message: string): Promise<any[]> {
     try {
       const list = await getListWithItems(roomId, roomState.listName!);
       if (list) {
-        const addedItems = await addItemsToList(list.id, items);
+        const { added, merged, skipped } = await addItemsToList(
+          list.id,
+          items,
+          sender.userId
+        );
         roomStates.delete(roomId);
 
-        const itemList = addedItems
-          .map((item) => `  ・${item.item_text}`)
-          .join("\n");
-        return [
-          {
-            type: "text",
-            text: `やったね！【${roomState.listName}】に追加完了だよ✨\n\n＜追加されたアイテム＞\n${itemList}\n\n「おぼえるくん ${roomState.listName}」で全部の中身も確認できるよ！`,
-          },
-        ];
+        let text =
+          added.length === 0 && merged.length === 0
+            ? `【${roomState.listName}】には全部もう入っていたよ👀\n\n`
+            : `やったね！【${roomState.listName}】に追加完了だよ✨\n\n`;
+        if (added.length > 0) {
+          const itemList = added
+            .map((item) => `  ・${formatItem(item)}`)
+            .join("\n");
+          text += `＜追加されたアイテム＞\n${itemList}\n\n`;
+        }
+        if (merged.length > 0) {
+          const itemList = merged
+            .map((item) => `  ・${formatItem(item)}`)
+            .join("\n");
+          text += `＜数量を増やしたアイテム＞\n${itemList}\n\n`;
+        }
+        if (skipped.length > 0) {
+          const itemList = skipped.map((name) => `  ・${name}`).join("\n");
+          text += `＜もう入っていて単位が違うのでスキップ＞\n${itemList}\n\n`;
+        }
+        text += `「おぼえるくん ${quoteArg(
+          roomState.listName!
+        )}」で全部の中身も確認できるよ！`;
+
+        return [{ type: "text", text }];
       } else {
         roomStates.delete(roomId);
         return [
@@ -403,6 +677,28 @@ async function processMessage(roomId: string, message: string): Promise<any[]> {
     }
   }
 
+  // テンプレートから作るリスト名の入力待ち
+  if (roomState?.waitingFor === "newListName") {
+    roomStates.delete(roomId);
+
+    if (message === "キャンセル") {
+      return [
+        {
+          type: "text",
+          text: "リストの作成をキャンセルしたよ👍",
+        },
+      ];
+    }
+
+    return await cloneListCommand(
+      roomId,
+      roomState.templateName!,
+      message,
+      true,
+      true
+    );
+  }
+
   // 削除番号の入力待ち
   if (roomState?.waitingFor === "deleteNumbers") {
     if (message === "キャンセル") {
@@ -446,14 +742,14 @@ async function processMessage(roomId: string, message: string): Promise<any[]> {
 
       roomStates.delete(roomId);
 
-      return [
+      return withUndoButton([
         {
           type: "text",
-          text: `${deletedCount}件のリマインダーを削除したよ🗑️\n\n削除した番号: ${numbers.join(
+          text: `${deletedCount}件のリマインダーをゴミ箱に移したよ🗑️\n\n削除した番号: ${numbers.join(
             ", "
-          )}`,
+          )}\n間違えたときは「おしえてくん ゴミ箱」から戻せるよ！`,
         },
-      ];
+      ]);
     } catch (error) {
       console.error("Delete error:", error);
       roomStates.delete(roomId);
@@ -466,6 +762,151 @@ async function processMessage(roomId: string, message: string): Promise<any[]> {
     }
   }
 
+  // リストアイテム番号の入力待ち
+  if (roomState?.waitingFor === "itemNumbers") {
+    const actionLabel = ITEM_ACTION_LABELS[roomState.itemAction!];
+
+    if (message === "キャンセル") {
+      roomStates.delete(roomId);
+      return [
+        {
+          type: "text",
+          text: `${actionLabel}をキャンセルしたよ👍`,
+        },
+      ];
+    }
+
+    const numbers = parseNumbers(message);
+
+    if (numbers.length === 0) {
+      return [
+        {
+          type: "text",
+          text: `番号が認識できなかったよ😅\nもう一度、${actionLabel}したい番号を入力してね！\n\n例: 1 3 5`,
+        },
+      ];
+    }
+
+    const deleteTargets = roomState.deleteTargets!;
+    const validItems = deleteTargets.items.filter((item) =>
+      numbers.includes(item.number)
+    );
+
+    if (validItems.length === 0) {
+      return [
+        {
+          type: "text",
+          text: "指定された番号が見つからなかったよ🤔\nもう一度確認してね！",
+        },
+      ];
+    }
+
+    roomStates.delete(roomId);
+    return await applyItemAction(
+      roomId,
+      roomState.listName!,
+      validItems.map((item) => item.id),
+      roomState.itemAction!
+    );
+  }
+
+  // 編集するアイテム番号の入力待ち
+  if (roomState?.waitingFor === "editItemNumber") {
+    if (message === "キャンセル") {
+      roomStates.delete(roomId);
+      return [{ type: "text", text: "編集をキャンセルしたよ👍" }];
+    }
+
+    const [number] = parseNumbers(message);
+    const target = roomState.deleteTargets!.items.find(
+      (item) => item.number === number
+    );
+
+    if (!target) {
+      return [
+        {
+          type: "text",
+          text: "指定された番号が見つからなかったよ🤔\n編集したいアイテムの番号を1つ入力してね！",
+        },
+      ];
+    }
+
+    roomStates.set(roomId, {
+      waitingFor: "editItemText",
+      listName: roomState.listName,
+      itemId: target.id,
+    });
+
+    return [
+      {
+        type: "text",
+        text: `✏️「${target.text}」を何に書き換える？\n新しい内容を送ってね📝\n\n例: 卵 2パック（Lサイズ）\n\nキャンセルする場合は「キャンセル」って送ってね。`,
+      },
+    ];
+  }
+
+  // 編集後のアイテム内容の入力待ち
+  if (roomState?.waitingFor === "editItemText") {
+    roomStates.delete(roomId);
+
+    if (message === "キャンセル") {
+      return [{ type: "text", text: "編集をキャンセルしたよ👍" }];
+    }
+
+    return await editItem(
+      roomId,
+      roomState.listName!,
+      roomState.itemId!,
+      message
+    );
+  }
+
+  // リマインダーの変更内容の入力待ち
+  if (roomState?.waitingFor === "reminderEdit") {
+    if (message === "キャンセル") {
+      roomStates.delete(roomId);
+      return [{ type: "text", text: "変更をキャンセルしたよ👍" }];
+    }
+
+    const parsed = parseReminderChanges(message);
+    if (!parsed.success) {
+      return [{ type: "text", text: parsed.error }];
+    }
+
+    roomStates.delete(roomId);
+    return await editReminderCommand(
+      roomId,
+      roomState.reminderName!,
+      parsed.changes
+    );
+  }
+
+  // ゴミ箱から戻す番号の入力待ち
+  if (roomState?.waitingFor === "restoreNumbers") {
+    if (message === "キャンセル") {
+      roomStates.delete(roomId);
+      return [{ type: "text", text: "キャンセルしたよ👍" }];
+    }
+
+    const numbers = parseNumbers(message);
+    const entries = roomState.trashEntries || [];
+    const targets = numbers
+      .filter((number) => number >= 1 && number <= entries.length)
+      .map((number) => entries[number - 1]);
+
+    if (targets.length === 0) {
+      return [
+        {
+          type: "text",
+          text: "指定された番号が見つからなかったよ🤔\n戻したい番号を入力してね！\n\n例: 1 3",
+        },
+      ];
+    }
+
+    roomStates.delete(roomId);
+    return await restoreTrashEntries(roomId, targets);
+  }
+
   // クリーンアップ番号の入力待ち
   if (roomState?.waitingFor === "cleanupNumbers") {
     if (message === "キャンセル") {
@@ -511,20 +952,20 @@ async function processMessage(roomId: string, message: string): Promise<any[]> {
         .filter((item) => item.type === "list")
         .map((item) => item.id);
 
-      const result = await deleteStaleDataByIds(reminderIds, listIds);
+      const result = await deleteStaleDataByIds(roomId, reminderIds, listIds);
 
       roomStates.delete(roomId);
 
-      return [
+      return withUndoButton([
         {
           type: "text",
           text: `🗑️ クリーンアップ完了！\n\n削除したデータ:\n・リマインダー: ${
             result.reminders
           }件\n・リスト: ${result.lists}件\n\n削除した番号: ${numbers.join(
             ", "
-          )}`,
+          )}\n${TRASH_RETENTION_DAYS}日間はゴミ箱から戻せるよ！`,
         },
-      ];
+      ]);
     } catch (error) {
       console.error("Cleanup delete error:", error);
       roomStates.delete(roomId);
@@ -539,7 +980,7 @@ async function processMessage(roomId: string, message: string): Promise<any[]> {
 
   // おぼえるくん（リスト管理）
   if (message.startsWith("おぼえるくん")) {
-    return await processListCommand(roomId, message);
+    return await processListCommand(roomId, message, sender);
   }
 
   // おしえてくん（リマインダー）
@@ -547,6 +988,11 @@ async function processMessage(roomId: string, message: string): Promise<any[]> {
     return await processReminderCommand(roomId, message);
   }
 
+  // 直前の操作を元に戻す
+  if (message === "元に戻す") {
+    return await undoCommand(roomId);
+  }
+
   // 使い方・ヘルプ
   if (message === "使い方" || message === "ヘルプ" || message === "help") {
     return await showHelp();
@@ -558,9 +1004,10 @@ async function processMessage(roomId: string, message: string): Promise<any[]> {
 // リスト管理コマンド処理
 async function processListCommand(
   roomId: string,
-  message: string
+  message: string,
+  sender: Sender
 ): Promise<any[]> {
-  const parts = message.split(/\s+/);
+  const parts = tokenizeCommand(message);
 
   // 「おぼえるくん」のみ
   if (parts.length === 1) {
@@ -579,44 +1026,59 @@ async function processListCommand(
 
   // 「おぼえるくん 一覧」
   if (parts.length === 2 && parts[1] === "一覧") {
-    try {
-      const lists = await getLists(roomId);
-      if (lists.length === 0) {
-        return [
-          {
-            type: "text",
-            text: "まだリストがないみたい📝\n「おぼえるくん [リスト名] 追加」でリストを作ってみよう！\n\n例：おぼえるくん 買い物リスト 追加",
-          },
-        ];
-      }
+    return await showListIndex(roomId);
+  }
 
-      let text = "━━━━━━━━━━━━━━\n";
-      text += "📋 登録中のリスト一覧\n";
-      text += "━━━━━━━━━━━━━━\n\n";
-      text += "下のボタンから確認したいリストを選んでね！\n\n";
-      lists.forEach((list, index) => {
-        text += `${index + 1}. ${list.list_name}\n`;
-      });
+  // 「おぼえるくん 検索 [キーワード]」（「卵 焼き」のようにカッコで囲んでもOK）
+  if (parts.length >= 3 && parts[1] === "検索") {
+    return await searchCommand(roomId, parts.slice(2).join(" "), "list");
+  }
 
-      const quickReply = {
-        items: lists.slice(0, 13).map((list) => ({
-          type: "action",
-          action: {
-            type: "postback",
-            label: list.list_name,
-            data: `action=show_list&list_name=${encodeURIComponent(
-              list.list_name
-            )}`,
-            displayText: `おぼえるくん ${list.list_name}`,
-          },
-        })),
-      };
+  // 「おぼえるくん 元に戻す」
+  if (parts.length === 2 && parts[1] === "元に戻す") {
+    return await undoCommand(roomId);
+  }
+
+  // 「おぼえるくん ゴミ箱」「おぼえるくん ゴミ箱 [番号]」
+  if (parts[1] === "ゴミ箱") {
+    return await trashCommand(roomId, parts.slice(2).join(" "));
+  }
+
+  // 「おぼえるくん 自分の担当」
+  if (parts.length === 2 && parts[1] === "自分の担当") {
+    return await showMyItems(roomId, sender);
+  }
+
+  // 「おぼえるくん 並び順」「おぼえるくん 並び順 [作成順 / よく使う順 / 手動]」
+  if ((parts.length === 2 || parts.length === 3) && parts[1] === "並び順") {
+    return await listOrderCommand(roomId, parts[2]);
+  }
+
+  // 「おぼえるくん 参加 [共有コード]」
+  if (parts.length === 3 && parts[1] === "参加") {
+    return await joinSharedListCommand(roomId, parts[2]);
+  }
+
+  // 「おぼえるくん テンプレ一覧」
+  if (parts.length === 2 && parts[1] === "テンプレ一覧") {
+    return await showTemplates(roomId);
+  }
 
+  // 「おぼえるくん テンプレ [テンプレ名] [新しいリスト名]」
+  if (parts.length === 4 && parts[1] === "テンプレ") {
+    return await cloneListCommand(roomId, parts[2], parts[3], true, true);
+  }
+
+  // 「おぼえるくん テンプレ削除 [テンプレ名]」
+  if (parts.length === 3 && parts[1] === "テンプレ削除") {
+    try {
+      const deleted = await deleteTemplate(roomId, parts[2]);
       return [
         {
           type: "text",
-          text: text,
-          quickReply: quickReply,
+          text: deleted
+            ? `テンプレート【${parts[2]}】を削除したよ🗑️`
+            : `あれ？テンプレート【${parts[2]}】が見つからなかった🤔\n「おぼえるくん テンプレ一覧」で確認してみて！`,
         },
       ];
     } catch (error) {
@@ -624,80 +1086,199 @@ async function processListCommand(
       return [
         {
           type: "text",
-          text: "あらら？リスト一覧の取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+          text: "テンプレートの削除でエラーが発生しちゃった😅\nもう一度試してみて！",
         },
       ];
     }
   }
 
-  // 「おぼえるくん [リスト名]」
-  if (parts.length === 2) {
-    const listName = parts[1];
-    return await showListDetails(roomId, listName);
-  }
-
-  // アイテム削除：「おぼえるくん [リスト名] [アイテム名] 削除」
-  if (parts.length >= 4 && parts[parts.length - 1] === "削除") {
-    const listName = parts[1];
-    const itemName = parts.slice(2, -1).join(" ");
-
+  // ここから先は parts[1] がリスト名のコマンド
+  // 打ち間違いや途中までの名前は登録済みのリスト名に読み替える（新しく作ることもある「追加」はそのまま）
+  // 書き換え・削除するコマンドは取り違えると困るので、前方一致・似た名前のときは確認してから実行する
+  // （見るだけのコマンドと、このあと選ぶ画面が出るコマンドはそのまま読み替える）
+  if (!(parts.length === 3 && parts[2] === "追加")) {
+    const isViewOnly =
+      parts.length === 2 ||
+      (parts.length <= 4 && parts[2] === "書き出し") ||
+      (parts.length === 3 &&
+        ["選んで削除", "選んでチェック", "編集"].includes(parts[2]));
     try {
-      const deleted = await deleteItemFromList(roomId, listName, itemName);
-      if (deleted) {
-        const updatedList = await getListWithItems(roomId, listName);
-        if (updatedList && updatedList.items && updatedList.items.length > 0) {
-          const itemList = updatedList.items
-            .map((item) => `  ・${item.item_text}`)
-            .join("\n");
-          return [
-            {
-              type: "text",
-              text: `よし！「${itemName}」を削除したよ🗑️\n\n【${listName}】の最新の中身\n${itemList}`,
-            },
-          ];
-        } else {
-          return [
-            {
-              type: "text",
-              text: `「${itemName}」を削除したら、【${listName}】が空になっちゃった😅\n新しいアイテムを追加するなら「おぼえるくん ${listName} 追加」だよ！`,
-            },
-          ];
-        }
-      } else {
-        return [
-          {
-            type: "text",
-            text: `あれ？「${itemName}」が【${listName}】に見つからなかった🤔\n「おぼえるくん ${listName}」で中身を確認してみて！`,
-          },
-        ];
+      const resolution = resolveName(
+        await getLists(roomId),
+        parts[1],
+        (list) => list.list_name
+      );
+      const rest = parts.length > 2 ? ` ${restOfCommand(message, 2)}` : "";
+      if (resolution.status === "not_found") {
+        return suggestNames(
+          "リスト",
+          parts[1],
+          resolution.suggestions.map((list) => list.list_name),
+          (name) => `おぼえるくん ${quoteArg(name)}${rest}`,
+          "おぼえるくん 一覧"
+        );
       }
+      if (!isViewOnly && !isConfidentMatch(resolution.match)) {
+        return suggestNames(
+          "リスト",
+          parts[1],
+          [resolution.value.list_name],
+          (name) => `おぼえるくん ${quoteArg(name)}${rest}`,
+          "おぼえるくん 一覧"
+        );
+      }
+      parts[1] = resolution.value.list_name;
     } catch (error) {
       console.error("Database error:", error);
       return [
         {
           type: "text",
-          text: "アイテム削除でエラーが発生しちゃった😅\nもう一度試してみて！",
+          text: "あらら？リストの取得でエラーが発生しちゃった😅\nもう一度試してみて！",
         },
       ];
     }
   }
 
-  // 通常の操作（3つの場合）
-  if (parts.length === 3) {
-    const listName = parts[1];
-    const action = parts[2];
+  // 担当者の変更：「おぼえるくん [リスト名] [番号 or アイテム名] 担当 [自分 / @メンション / 名前 / なし]」
+  if (parts.length >= 5 && parts[3] === "担当") {
+    return await assignItemsCommand(
+      roomId,
+      parts[1],
+      parts[2],
+      restOfCommand(message, 4),
+      sender
+    );
+  }
 
-    if (action === "追加") {
-      try {
-        await createList(roomId, listName);
-        roomStates.set(roomId, { waitingFor: "items", listName });
-        return [
-          {
-            type: "text",
-            text: `【${listName}】に追加したいものを教えてね～📝\n改行で区切って複数のアイテムを一度に追加できるよ！\n\n例：\nネギ\nキャベツ\nひき肉`,
-          },
-        ];
-      } catch (error) {
+  // 「おぼえるくん [リスト名] 書き出し [テキスト / CSV / Markdown]」
+  if ((parts.length === 3 || parts.length === 4) && parts[2] === "書き出し") {
+    return await exportListCommand(roomId, parts[1], parts[3]);
+  }
+
+  // 「おぼえるくん [リスト名] テンプレ保存 [テンプレ名]」（テンプレ名を省略するとリスト名と同じ）
+  if (
+    (parts.length === 3 || parts.length === 4) &&
+    parts[2] === "テンプレ保存"
+  ) {
+    return await saveTemplateCommand(roomId, parts[1], parts[3] || parts[1]);
+  }
+
+  // 「おぼえるくん [リスト名] 複製 [新しいリスト名] [リセット]」
+  if (
+    (parts.length === 4 || (parts.length === 5 && parts[4] === "リセット")) &&
+    parts[2] === "複製"
+  ) {
+    return await cloneListCommand(
+      roomId,
+      parts[1],
+      parts[3],
+      false,
+      parts.length === 5
+    );
+  }
+
+  // 「おぼえるくん [リスト名]」
+  if (parts.length === 2) {
+    const listName = parts[1];
+    return await showListDetails(roomId, listName);
+  }
+
+  // 一覧での位置を変える：「おぼえるくん [リスト名] 並び替え [番号]」
+  if (parts.length === 4 && parts[2] === "並び替え") {
+    return await moveListCommand(roomId, parts[1], parts[3]);
+  }
+
+  // リスト名変更：「おぼえるくん [リスト名] 名前変更 [新しい名前]」
+  if (parts.length === 4 && parts[2] === "名前変更") {
+    return await renameListCommand(roomId, parts[1], parts[3]);
+  }
+
+  // アイテム移動：「おぼえるくん [リスト名] [番号 or アイテム名] 移動 [移動先リスト名]」
+  if (parts.length >= 5 && parts[parts.length - 2] === "移動") {
+    const listName = parts[1];
+    const target = parts.slice(2, -2).join(" ");
+    const toListName = parts[parts.length - 1];
+    return await moveItemsCommand(roomId, listName, target, toListName);
+  }
+
+  // アイテム編集：「おぼえるくん [リスト名] [番号 or アイテム名] 変更 [新しい内容]」
+  if (parts.length >= 5 && parts[3] === "変更") {
+    return await editItemCommand(
+      roomId,
+      parts[1],
+      parts[2],
+      restOfCommand(message, 4)
+    );
+  }
+
+  // 売り場の変更：「おぼえるくん [リスト名] [番号 or アイテム名] 売り場 [売り場名 or なし]」
+  if (parts.length >= 5 && parts[parts.length - 2] === "売り場") {
+    const listName = parts[1];
+    const target = parts.slice(2, -2).join(" ");
+    const section = parts[parts.length - 1];
+    return await setSectionCommand(
+      roomId,
+      listName,
+      target,
+      section === "なし" ? null : section
+    );
+  }
+
+  // アイテム操作：「おぼえるくん [リスト名] [番号 or アイテム名] 削除 / チェック / チェック解除」
+  const itemAction = (Object.keys(ITEM_ACTION_LABELS) as ItemAction[]).find(
+    (key) => ITEM_ACTION_LABELS[key] === parts[parts.length - 1]
+  );
+  if (parts.length >= 4 && itemAction) {
+    const listName = parts[1];
+    const target = parts.slice(2, -1).join(" ");
+    return await runItemCommand(roomId, listName, target, itemAction);
+  }
+
+  // 通常の操作（3つの場合）
+  if (parts.length === 3) {
+    const listName = parts[1];
+    const action = parts[2];
+
+    if (action === "共有") {
+      return await shareListCommand(roomId, listName);
+    }
+
+    if (action === "共有解除") {
+      return await unshareListCommand(roomId, listName);
+    }
+
+    if (action === "チェック済み削除") {
+      return await clearCheckedAndShow(roomId, listName);
+    }
+
+    if (action === "ピン留め" || action === "ピン留め解除") {
+      return await pinListCommand(roomId, listName, action === "ピン留め");
+    }
+
+    if (action === "選んで削除") {
+      return await startItemSelection(roomId, listName, "delete");
+    }
+
+    if (action === "選んでチェック") {
+      return await startItemSelection(roomId, listName, "check");
+    }
+
+    if (action === "編集") {
+      return await startItemEdit(roomId, listName);
+    }
+
+    if (action === "追加") {
+      try {
+        const { created } = await createList(roomId, listName);
+        roomStates.set(roomId, { waitingFor: "items", listName });
+        const intro = created ? `✨ 新しく【${listName}】を作ったよ！\n` : "";
+        return [
+          {
+            type: "text",
+            text: `${intro}【${listName}】に追加したいものを教えてね～📝\n改行で区切って複数のアイテムを一度に追加できるよ！（レシピの貼り付けもOK）\n数量やメモ、「野菜:」のように売り場も書けるよ（同じものは数量が増えるよ）\n\n例：\n野菜: ネギ\n野菜: キャベツ 1玉\n肉: ひき肉 300g（豚）`,
+          },
+        ];
+      } catch (error) {
         console.error("Database error:", error);
         return [
           {
@@ -712,12 +1293,12 @@ async function processListCommand(
       try {
         const deleted = await deleteList(roomId, listName);
         if (deleted) {
-          return [
+          return withUndoButton([
             {
               type: "text",
-              text: `【${listName}】を完全に削除したよ🗑️\nまた新しいリストが必要になったらいつでも作ってね！`,
+              text: `【${listName}】をゴミ箱に移したよ🗑️\n間違えたときは「おぼえるくん ゴミ箱」から戻せるよ！`,
             },
-          ];
+          ]);
         } else {
           return [
             {
@@ -746,220 +1327,1874 @@ async function processListCommand(
   ];
 }
 
-// リスト詳細表示（ボタン付き）
-async function showListDetails(
+// 名前が見つからなかったときの「もしかして？」（候補のボタンで同じコマンドをやり直せる）
+function suggestNames(
+  kind: "リスト" | "リマインダー",
+  name: string,
+  suggestions: string[],
+  buildCommand: (suggestion: string) => string,
+  indexCommand: string
+): any[] {
+  if (suggestions.length === 0) {
+    return [
+      {
+        type: "text",
+        text: `あれ？【${name}】という${kind}が見つからなかった🤔\n「${indexCommand}」で確認してみて！`,
+      },
+    ];
+  }
+
+  let text = `あれ？【${name}】という${kind}が見つからなかった🤔\n`;
+  text += "もしかして…？\n\n";
+  suggestions.forEach((suggestion) => {
+    text += `・${suggestion}\n`;
+  });
+  text += "\n下のボタンから選んでね！";
+
+  return [
+    {
+      type: "text",
+      text,
+      quickReply: {
+        items: suggestions.map((suggestion) => ({
+          type: "action",
+          action: {
+            type: "message",
+            label: suggestion.substring(0, 20),
+            text: buildCommand(suggestion),
+          },
+        })),
+      },
+    },
+  ];
+}
+
+// リストのピン留め・ピン留め解除（ピン留めしたリストは一覧の先頭に出る）
+async function pinListCommand(
   roomId: string,
-  listName: string
+  listName: string,
+  pinned: boolean
 ): Promise<any[]> {
   try {
-    const list = await getListWithItems(roomId, listName);
-    if (!list || !list.items || list.items.length === 0) {
+    const list = await setListPinned(roomId, listName, pinned);
+    if (!list) {
       return [
         {
           type: "text",
-          text: `【${listName}】はまだ空っぽだよ～📝\n「おぼえるくん ${listName} 追加」でアイテムを入れてみよう！`,
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
         },
       ];
     }
 
-    let text = "━━━━━━━━━━━━━━\n";
-    text += `📋 【${listName}】の中身\n`;
-    text += "━━━━━━━━━━━━━━\n\n";
-
-    list.items.forEach((item, index) => {
-      text += `  ${index + 1}. ${item.item_text}\n`;
-    });
+    return [
+      {
+        type: "text",
+        text: pinned
+          ? `📌【${list.list_name}】をピン留めしたよ！\n「おぼえるくん 一覧」でいつも先頭に出るよ✨`
+          : `【${list.list_name}】のピン留めを外したよ👌`,
+        quickReply: {
+          items: [
+            {
+              type: "action",
+              action: {
+                type: "message",
+                label: "📋 一覧を見る",
+                text: "おぼえるくん 一覧",
+              },
+            },
+          ],
+        },
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "ピン留めの変更でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
 
-    text += "\n次のアクションを選んでね！";
+// 一覧での位置を変える（並び順は手動になる）
+async function moveListCommand(
+  roomId: string,
+  listName: string,
+  positionText: string
+): Promise<any[]> {
+  const position = parseInt(positionText.normalize("NFKC"));
+  if (!(position > 0)) {
+    return [
+      {
+        type: "text",
+        text: `何番目にするか数字で教えてね🤔\n例：おぼえるくん ${quoteArg(
+          listName
+        )} 並び替え 1`,
+      },
+    ];
+  }
 
-    const quickReply = {
-      items: [
-        {
-          type: "action",
-          action: {
-            type: "postback",
-            label: "➕ 追加",
-            data: `action=add_to_list&list_name=${encodeURIComponent(
-              listName
-            )}`,
-            displayText: `おぼえるくん ${listName} 追加`,
-          },
-        },
-        {
-          type: "action",
-          action: {
-            type: "postback",
-            label: "🗑️ リスト削除",
-            data: `action=delete_list&list_name=${encodeURIComponent(
-              listName
-            )}`,
-            displayText: `おぼえるくん ${listName} 削除`,
-          },
-        },
+  try {
+    const list = await moveListPosition(roomId, listName, position);
+    if (!list) {
+      return [
         {
-          type: "action",
-          action: {
-            type: "message",
-            label: "📋 一覧に戻る",
-            text: "おぼえるくん 一覧",
-          },
+          type: "text",
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
         },
-      ],
-    };
+      ];
+    }
 
+    const lists = await showListIndex(roomId);
     return [
       {
         type: "text",
-        text: text,
-        quickReply: quickReply,
+        text: `【${list.list_name}】を動かしたよ🔃\n並び順を「${LIST_ORDER_LABELS.manual}」にしたよ！`,
       },
+      ...lists,
     ];
   } catch (error) {
     console.error("Database error:", error);
     return [
       {
         type: "text",
-        text: "リストの取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+        text: "並び替えでエラーが発生しちゃった😅\nもう一度試してみて！",
       },
     ];
   }
 }
 
-// リマインダーコマンド処理
-async function processReminderCommand(
+// リスト一覧の並び順を表示・変更
+async function listOrderCommand(
   roomId: string,
-  message: string
+  orderName?: string
 ): Promise<any[]> {
-  const parts = message.split(/\s+/);
+  const orders = Object.keys(LIST_ORDER_LABELS) as ListOrder[];
 
-  // 「おしえてくん」のみ
-  if (parts.length === 1) {
-    return await showHelp();
-  }
+  try {
+    if (!orderName) {
+      const current = await getListOrder(roomId);
+      return [
+        {
+          type: "text",
+          text: `今は「${LIST_ORDER_LABELS[current]}」でリストを並べてるよ🔃\n\n・作成順：新しく作ったリストが上\n・よく使う順：最近開いたリストが上\n・手動：「おぼえるくん [リスト名] 並び替え [番号]」で並べた順\n\n📌 ピン留めしたリストはいつも先頭に出るよ！`,
+          quickReply: {
+            items: orders.map((order) => ({
+              type: "action",
+              action: {
+                type: "message",
+                label: LIST_ORDER_LABELS[order],
+                text: `おぼえるくん 並び順 ${LIST_ORDER_LABELS[order]}`,
+              },
+            })),
+          },
+        },
+      ];
+    }
 
-  // 「おしえてくん 一覧」
-  if (parts.length === 2 && parts[1] === "一覧") {
-    try {
-      const categorized = await getCategorizedReminders(roomId);
+    const order = orders.find((key) => LIST_ORDER_LABELS[key] === orderName);
+    if (!order) {
+      return [
+        {
+          type: "text",
+          text: `並び順は「${orders
+            .map((key) => LIST_ORDER_LABELS[key])
+            .join("」「")}」から選んでね🤔`,
+        },
+      ];
+    }
 
-      if (
-        categorized.active.length === 0 &&
-        categorized.pending.length === 0 &&
-        categorized.completed.length === 0
-      ) {
-        return [
-          {
-            type: "text",
-            text: "まだリマインダーがないみたい⏰\n「おしえてくん 明日 9時 ゴミ出し」みたいに登録してみよう！",
-          },
-        ];
-      }
+    await setListOrder(roomId, order);
+    const lists = await showListIndex(roomId);
+    return [
+      {
+        type: "text",
+        text: `リストを「${LIST_ORDER_LABELS[order]}」で並べるようにしたよ🔃`,
+      },
+      ...lists,
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "並び順の変更でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
 
-      let text = "━━━━━━━━━━━━━━\n";
-      text += "⏰ リマインダー一覧\n";
-      text += "━━━━━━━━━━━━━━\n\n";
-
-      let itemNumber = 1;
-      const allItems = [];
-
-      // 未完了
-      if (categorized.active.length > 0) {
-        text += "【未完了】\n";
-        for (const reminder of categorized.active) {
-          text += `  ${itemNumber}. ${reminder.message}\n`;
-          text += `     (${formatDateTime(new Date(reminder.remind_at))})\n`;
-          allItems.push({
-            number: itemNumber,
-            id: reminder.id,
-            type: "active",
-          });
-          itemNumber++;
-        }
-        text += "\n";
-      }
+// リスト一覧表示（多いときは「もっと見る」でページ送り）
+async function showListIndex(roomId: string, page: number = 0): Promise<any[]> {
+  try {
+    const lists = await getLists(roomId);
+    if (lists.length === 0) {
+      return [
+        {
+          type: "text",
+          text: "まだリストがないみたい📝\n「おぼえるくん [リスト名] 追加」でリストを作ってみよう！\n\n例：おぼえるくん 買い物リスト 追加",
+        },
+      ];
+    }
 
-      // 期限超過
-      if (categorized.pending.length > 0) {
-        text += "【期限超過】⚠️\n";
-        for (const reminder of categorized.pending) {
-          text += `  ${itemNumber}. ${reminder.message}\n`;
-          text += `     (${formatDateTime(new Date(reminder.remind_at))})\n`;
-          allItems.push({
-            number: itemNumber,
-            id: reminder.id,
-            type: "pending",
-          });
-          itemNumber++;
-        }
-        text += "\n";
-      }
+    const start = page * LIST_INDEX_PAGE_SIZE;
+    const pageLists = lists.slice(start, start + LIST_INDEX_PAGE_SIZE);
+    const hasMore = start + LIST_INDEX_PAGE_SIZE < lists.length;
+    const pageCount = Math.ceil(lists.length / LIST_INDEX_PAGE_SIZE);
 
-      // 完了済み
-      if (categorized.completed.length > 0) {
-        text += "【完了済み】✅\n";
-        for (const reminder of categorized.completed) {
-          text += `  ・${reminder.message}\n`;
-        }
-        text += "\n";
-      }
+    let text = "━━━━━━━━━━━━━━\n";
+    text += `📋 登録中のリスト一覧${
+      pageCount > 1 ? `（${page + 1}/${pageCount}ページ）` : ""
+    }\n`;
+    text += "━━━━━━━━━━━━━━\n\n";
+    text += "下のボタンから確認したいリストを選んでね！\n\n";
+    pageLists.forEach((list, index) => {
+      text += `${start + index + 1}. ${list.is_pinned ? "📌 " : ""}${
+        list.list_name
+      }${isSharedList(roomId, list) ? " 🔗" : ""}\n`;
+    });
 
-      text += "次のアクションを選んでね👇";
+    const listButtons = pageLists.map((list) => ({
+      type: "action",
+      action: {
+        type: "postback",
+        label: `${list.is_pinned ? "📌" : ""}${list.list_name}`.substring(
+          0,
+          20
+        ),
+        data: `action=show_list&list_name=${encodeURIComponent(
+          list.list_name
+        )}`,
+        displayText: `おぼえるくん ${quoteArg(list.list_name)}`,
+      },
+    }));
+
+    if (hasMore) {
+      text += `\n…ほか${lists.length - start - LIST_INDEX_PAGE_SIZE}件`;
+      listButtons.push({
+        type: "action",
+        action: {
+          type: "postback",
+          label: "▶️ もっと見る",
+          data: `action=list_index&page=${page + 1}`,
+          displayText: "もっと見る",
+        },
+      });
+    }
 
-      // 状態を保存（削除機能用）
-      roomStates.set(roomId, {
-        waitingFor: "none",
-        deleteTargets: {
-          type: "reminder",
-          ids: allItems.map((item) => item.id),
-          items: allItems,
+    const order = await getListOrder(roomId);
+    text = `${text.trimEnd()}\n\n🔃 ${
+      LIST_ORDER_LABELS[order]
+    }で表示中（「おぼえるくん 並び順」で変更）`;
+
+    // テンプレートがあればテンプレートから作るボタンも
+    const templates = await getTemplates(roomId);
+    if (templates.length > 0) {
+      listButtons.push({
+        type: "action",
+        action: {
+          type: "postback",
+          label: "📑 テンプレから作成",
+          data: "action=show_templates",
+          displayText: "おぼえるくん テンプレ一覧",
         },
       });
+    }
 
-      const quickReply = {
-        items: [
-          {
-            type: "action",
-            action: {
-              type: "message",
-              label: "🗑️ 削除",
-              text: "おしえてくん 削除",
-            },
-          },
-          {
-            type: "action",
-            action: {
-              type: "message",
-              label: "🔄 更新",
-              text: "おしえてくん 一覧",
-            },
-          },
-          {
-            type: "action",
-            action: {
-              type: "message",
-              label: "📋 戻る",
-              text: "使い方",
-            },
-          },
-        ],
-      };
+    return [
+      {
+        type: "text",
+        text: text.trimEnd(),
+        quickReply: { items: listButtons },
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "あらら？リスト一覧の取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
 
+// リスト詳細表示（ボタン付き、多いときは「もっと見る」でページ送り）
+async function showListDetails(
+  roomId: string,
+  listName: string,
+  page: number = 0
+): Promise<any[]> {
+  try {
+    const list = await getListWithItems(roomId, listName);
+    if (!list) {
+      // ボタンを押す前に削除された場合など
       return [
         {
           type: "text",
-          text: text,
-          quickReply: quickReply,
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
         },
       ];
-    } catch (error) {
-      console.error("Database error:", error);
+    }
+    // 表記揺れで見つかった場合も正式なリスト名で表示する
+    listName = list.list_name;
+    if (!list.items || list.items.length === 0) {
       return [
         {
           type: "text",
-          text: "リマインダー一覧の取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+          text: `【${listName}】はまだ空っぽだよ～📝\n「おぼえるくん ${quoteArg(
+            listName
+          )} 追加」でアイテムを入れてみよう！`,
         },
       ];
     }
+
+    const checkedItems = list.items.filter((item) => item.is_checked);
+
+    const actionItems: any[] = [
+      {
+        type: "action",
+        action: {
+          type: "postback",
+          label: "➕ 追加",
+          data: `action=add_to_list&list_name=${encodeURIComponent(listName)}`,
+          displayText: `おぼえるくん ${quoteArg(listName)} 追加`,
+        },
+      },
+    ];
+
+    actionItems.push(
+      {
+        type: "action",
+        action: {
+          type: "postback",
+          label: "✔️ 番号でチェック",
+          data: `action=select_items&list_name=${encodeURIComponent(
+            listName
+          )}&mode=check`,
+          displayText: `おぼえるくん ${quoteArg(listName)} 選んでチェック`,
+        },
+      },
+      {
+        type: "action",
+        action: {
+          type: "postback",
+          label: "🗑️ 番号で削除",
+          data: `action=select_items&list_name=${encodeURIComponent(
+            listName
+          )}&mode=delete`,
+          displayText: `おぼえるくん ${quoteArg(listName)} 選んで削除`,
+        },
+      }
+    );
+
+    actionItems.push({
+      type: "action",
+      action: {
+        type: "postback",
+        label: "✏️ 編集",
+        data: `action=edit_item&list_name=${encodeURIComponent(listName)}`,
+        displayText: `おぼえるくん ${quoteArg(listName)} 編集`,
+      },
+    });
+
+    if (checkedItems.length > 0) {
+      actionItems.push({
+        type: "action",
+        action: {
+          type: "postback",
+          label: "🧹 チェック済み削除",
+          data: `action=clear_checked&list_name=${encodeURIComponent(
+            listName
+          )}`,
+          displayText: `おぼえるくん ${quoteArg(listName)} チェック済み削除`,
+        },
+      });
+    }
+
+    actionItems.push(
+      {
+        type: "action",
+        action: {
+          type: "postback",
+          label: list.is_pinned ? "📌 ピン留め解除" : "📌 ピン留め",
+          data: `action=pin_list&list_name=${encodeURIComponent(
+            listName
+          )}&pinned=${list.is_pinned ? "0" : "1"}`,
+          displayText: `おぼえるくん ${quoteArg(listName)} ${
+            list.is_pinned ? "ピン留め解除" : "ピン留め"
+          }`,
+        },
+      },
+      {
+        type: "action",
+        action: {
+          type: "postback",
+          label: "🗑️ リスト削除",
+          data: `action=delete_list&list_name=${encodeURIComponent(listName)}`,
+          displayText: `おぼえるくん ${quoteArg(listName)} 削除`,
+        },
+      },
+      {
+        type: "action",
+        action: {
+          type: "message",
+          label: "📋 一覧に戻る",
+          text: "おぼえるくん 一覧",
+        },
+      }
+    );
+
+    // アイテムごとのチェック・削除はカードのボタンで、リスト全体の操作はクイックリプライで
+    return [
+      {
+        ...buildListMessage(list, isSharedList(roomId, list), page),
+        quickReply: { items: actionItems },
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "リストの取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// アイテムのチェック状態を切り替えて、最新の中身を返す
+async function toggleItemCheck(
+  roomId: string,
+  listName: string,
+  itemId: number,
+  checked: boolean
+): Promise<any[]> {
+  return await applyItemAction(
+    roomId,
+    listName,
+    [itemId],
+    checked ? "check" : "uncheck"
+  );
+}
+
+// 「[番号 or アイテム名] 削除/チェック/チェック解除」を実行
+async function runItemCommand(
+  roomId: string,
+  listName: string,
+  target: string,
+  itemAction: ItemAction
+): Promise<any[]> {
+  try {
+    const list = await getListWithItems(roomId, listName);
+    if (!list) {
+      return [
+        {
+          type: "text",
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
+        },
+      ];
+    }
+
+    const targetItems = resolveItemTargets(list.items || [], target);
+
+    if (targetItems.length === 0) {
+      return [
+        {
+          type: "text",
+          text: `あれ？「${target}」が【${listName}】に見つからなかった🤔\n「おぼえるくん ${quoteArg(
+            listName
+          )}」で番号を確認して、\n「おぼえるくん ${quoteArg(listName)} 1 3 ${
+            ITEM_ACTION_LABELS[itemAction]
+          }」みたいに番号で指定してみて！`,
+        },
+      ];
+    }
+
+    return await applyItemAction(
+      roomId,
+      listName,
+      targetItems.map((item) => item.id),
+      itemAction
+    );
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: `アイテムの${ITEM_ACTION_LABELS[itemAction]}でエラーが発生しちゃった😅\nもう一度試してみて！`,
+      },
+    ];
+  }
+}
+
+// 「1 3」のような番号指定、またはアイテム名（完全一致）から対象アイテムを決める
+function resolveItemTargets(items: ListItem[], target: string): ListItem[] {
+  if (/^[\d\s,.、，．]+$/.test(target)) {
+    // 番号指定（showListDetailsの表示順と同じ）
+    return parseNumbers(target)
+      .filter((number) => number <= items.length)
+      .map((number) => items[number - 1]);
+  }
+
+  // アイテム名は表記揺れを除いた完全一致のみ（部分一致だと別のアイテムを消しかねない）
+  return items.filter((item) => isSameText(item.item_text, target));
+}
+
+// リスト名を変更
+async function renameListCommand(
+  roomId: string,
+  oldName: string,
+  newName: string
+): Promise<any[]> {
+  if (oldName === newName) {
+    return [
+      {
+        type: "text",
+        text: `【${oldName}】はもうその名前だよ😊`,
+      },
+    ];
+  }
+
+  try {
+    const result = await renameList(roomId, oldName, newName);
+
+    if (result === "conflict") {
+      return [
+        {
+          type: "text",
+          text: `【${newName}】っていうリストがもうあるみたい🤔\n別の名前にするか、先に【${newName}】を整理してね！`,
+        },
+      ];
+    }
+
+    if (result === "not_found") {
+      return [
+        {
+          type: "text",
+          text: `あれ？【${oldName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
+        },
+      ];
+    }
+
+    return [
+      {
+        type: "text",
+        text: `✏️【${oldName}】を【${newName}】に名前変更したよ！`,
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "名前変更でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// アイテムを別のリストへ移動
+async function moveItemsCommand(
+  roomId: string,
+  listName: string,
+  target: string,
+  toListName: string
+): Promise<any[]> {
+  if (listName === toListName) {
+    return [
+      {
+        type: "text",
+        text: `移動元と移動先が同じ【${listName}】になってるよ🤔`,
+      },
+    ];
+  }
+
+  try {
+    const list = await getListWithItems(roomId, listName);
+    if (!list) {
+      return [
+        {
+          type: "text",
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
+        },
+      ];
+    }
+
+    const targetItems = resolveItemTargets(list.items || [], target);
+    if (targetItems.length === 0) {
+      return [
+        {
+          type: "text",
+          text: `あれ？「${target}」が【${listName}】に見つからなかった🤔\n「おぼえるくん ${quoteArg(
+            listName
+          )}」で番号を確認してみて！`,
+        },
+      ];
+    }
+
+    const result = await moveItemsToList(
+      roomId,
+      listName,
+      toListName,
+      targetItems.map((item) => item.id)
+    );
+    if (!result || result.moved === 0) {
+      return [
+        {
+          type: "text",
+          text: "アイテムを移動できなかった🤔\nもう一度確認してみて！",
+        },
+      ];
+    }
+
+    const names = targetItems.map((item) => `「${item.item_text}」`).join("");
+    let text = `📦 ${names}を【${listName}】から【${toListName}】に移動したよ！`;
+    if (result.createdTarget) {
+      text += `\n（【${toListName}】は新しく作ったよ✨）`;
+    }
+
+    const details = await showListDetails(roomId, toListName);
+    return [{ type: "text", text }, ...details];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "アイテムの移動でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// テンプレート一覧（ボタンで選ぶとそのテンプレートから新しいリストを作る）
+async function showTemplates(roomId: string): Promise<any[]> {
+  try {
+    const templates = await getTemplates(roomId);
+    if (templates.length === 0) {
+      return [
+        {
+          type: "text",
+          text: "まだテンプレートがないみたい📑\n「おぼえるくん [リスト名] テンプレ保存」でよく使うリストをテンプレートにできるよ！\n\n例：おぼえるくん キャンプ持ち物 テンプレ保存",
+        },
+      ];
+    }
+
+    let text = "━━━━━━━━━━━━━━\n";
+    text += "📑 テンプレート一覧\n";
+    text += "━━━━━━━━━━━━━━\n\n";
+    text += "下のボタンからテンプレートを選ぶと、新しいリストを作れるよ！\n\n";
+    templates.forEach((template, index) => {
+      text += `${index + 1}. ${template.list_name}\n`;
+    });
+
+    const quickReply = {
+      items: templates.slice(0, 13).map((template) => ({
+        type: "action",
+        action: {
+          type: "postback",
+          label: template.list_name.substring(0, 20),
+          data: `action=use_template&template_name=${encodeURIComponent(
+            template.list_name
+          )}`,
+          displayText: `テンプレート【${template.list_name}】から作成`,
+        },
+      })),
+    };
+
+    return [
+      {
+        type: "text",
+        text: text,
+        quickReply: quickReply,
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "テンプレート一覧の取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// リストをテンプレートとして保存
+async function saveTemplateCommand(
+  roomId: string,
+  listName: string,
+  templateName: string
+): Promise<any[]> {
+  try {
+    const result = await saveListAsTemplate(roomId, listName, templateName);
+    if (!result) {
+      return [
+        {
+          type: "text",
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
+        },
+      ];
+    }
+
+    const verb = result.overwritten ? "上書き保存" : "保存";
+    return [
+      {
+        type: "text",
+        text: `📑【${listName}】をテンプレート【${
+          result.template.list_name
+        }】として${verb}したよ！（${
+          result.itemCount
+        }件）\n\n「おぼえるくん テンプレ ${quoteArg(
+          result.template.list_name
+        )} [新しいリスト名]」でいつでも同じリストを作れるよ✨`,
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "テンプレートの保存でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// リスト（またはテンプレート）を複製して新しいリストを作る
+async function cloneListCommand(
+  roomId: string,
+  sourceName: string,
+  newListName: string,
+  fromTemplate: boolean,
+  resetChecks: boolean
+): Promise<any[]> {
+  const sourceLabel = fromTemplate
+    ? `テンプレート【${sourceName}】`
+    : `【${sourceName}】`;
+
+  try {
+    const result = await cloneList(roomId, sourceName, newListName, {
+      fromTemplate,
+      resetChecks,
+    });
+
+    if (result.status === "not_found") {
+      return [
+        {
+          type: "text",
+          text: `あれ？${sourceLabel}が見つからなかった🤔\n${
+            fromTemplate
+              ? "「おぼえるくん テンプレ一覧」"
+              : "「おぼえるくん 一覧」"
+          }で確認してみて！`,
+        },
+      ];
+    }
+
+    if (result.status === "conflict") {
+      return [
+        {
+          type: "text",
+          text: `【${newListName}】っていうリストがもうあるみたい🤔\n別の名前で作ってみてね！`,
+        },
+      ];
+    }
+
+    const details = await showListDetails(roomId, result.list.list_name);
+    return [
+      {
+        type: "text",
+        text: `✨ ${sourceLabel}から【${result.list.list_name}】を作ったよ！（${
+          result.itemCount
+        }件${resetChecks && !fromTemplate ? "・チェックはリセット" : ""}）`,
+      },
+      ...details,
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "リストの作成でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// ほかのルームと共有しているリストかどうか
+function isSharedList(roomId: string, list: List): boolean {
+  return list.user_id !== roomId || !!list.share_code;
+}
+
+// リストの共有コードを発行
+async function shareListCommand(
+  roomId: string,
+  listName: string
+): Promise<any[]> {
+  try {
+    const result = await createShareCode(roomId, listName);
+    if (!result) {
+      return [
+        {
+          type: "text",
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
+        },
+      ];
+    }
+
+    return [
+      {
+        type: "text",
+        text: `🔗【${result.list.list_name}】の共有コードは「${result.shareCode}」だよ！\n\n一緒に使いたいトーク（グループや個人チャット）で、次のように送ってね👇`,
+      },
+      {
+        type: "text",
+        text: `おぼえるくん 参加 ${result.shareCode}`,
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "共有コードの発行でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// 共有コードでリストに参加
+async function joinSharedListCommand(
+  roomId: string,
+  shareCode: string
+): Promise<any[]> {
+  try {
+    const result = await joinSharedList(roomId, shareCode);
+
+    if (result.status === "not_found") {
+      return [
+        {
+          type: "text",
+          text: `共有コード「${shareCode}」のリストが見つからなかった🤔\nコードをもう一度確認してみて！`,
+        },
+      ];
+    }
+
+    if (result.status === "already") {
+      return [
+        {
+          type: "text",
+          text: `【${result.list.list_name}】はもうこのトークで使えるよ😊`,
+        },
+      ];
+    }
+
+    if (result.status === "conflict") {
+      return [
+        {
+          type: "text",
+          text: `このトークにはもう【${
+            result.list.list_name
+          }】っていうリストがあるみたい🤔\n「おぼえるくん ${quoteArg(
+            result.list.list_name
+          )} 名前変更 [新しい名前]」で名前を変えてから参加してね！`,
+        },
+      ];
+    }
+
+    const details = await showListDetails(roomId, result.list.list_name);
+    return [
+      {
+        type: "text",
+        text: `🔗【${result.list.list_name}】に参加したよ！\nこれからは共有しているトークのみんなで同じリストを使えるよ✨`,
+      },
+      ...details,
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "共有リストへの参加でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// 共有を解除（元のトークなら共有を停止、参加したトークなら共有から抜ける）
+async function unshareListCommand(
+  roomId: string,
+  listName: string
+): Promise<any[]> {
+  try {
+    const result = await unshareList(roomId, listName);
+
+    const messages: Record<UnshareListResult, string> = {
+      stopped: `【${listName}】の共有を停止したよ🔒\nほかのトークからは見えなくなったよ。`,
+      left: `【${listName}】の共有から抜けたよ👋\n元のトークのリストはそのまま残っているよ。`,
+      not_shared: `【${listName}】はまだ共有していないよ🤔`,
+      not_found: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
+    };
+
+    return [{ type: "text", text: messages[result] }];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "共有の解除でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// メンバーの表示名を取得（グループ・複数人トーク・個人チャットでAPIが違う）
+async function getDisplayName(
+  roomId: string,
+  sourceType: string,
+  userId: string
+): Promise<string | null> {
+  const url =
+    sourceType === "group"
+      ? `https://api.line.me/v2/bot/group/${roomId}/member/${userId}`
+      : sourceType === "room"
+      ? `https://api.line.me/v2/bot/room/${roomId}/member/${userId}`
+      : `https://api.line.me/v2/bot/profile/${userId}`;
+
+  try {
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${CHANNEL_ACCESS_TOKEN}` },
+    });
+    if (!response.ok) {
+      return null;
+    }
+    const profile = await response.json();
+    return profile.displayName || null;
+  } catch (error) {
+    console.error("Profile error:", error);
+    return null;
+  }
+}
+
+// アイテムの担当者を決める
+async function assignItemsCommand(
+  roomId: string,
+  listName: string,
+  target: string,
+  assigneeSpec: string,
+  sender: Sender
+): Promise<any[]> {
+  try {
+    const list = await getListWithItems(roomId, listName);
+    if (!list) {
+      return [
+        {
+          type: "text",
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
+        },
+      ];
+    }
+
+    const targetItems = resolveItemTargets(list.items || [], target);
+    if (targetItems.length === 0) {
+      return [
+        {
+          type: "text",
+          text: `あれ？「${target}」が【${
+            list.list_name
+          }】に見つからなかった🤔\n「おぼえるくん ${quoteArg(
+            list.list_name
+          )}」で番号を確認してみて！`,
+        },
+      ];
+    }
+
+    // 自分 → 送った人、メンション → メンションされた人、それ以外は名前だけ記録
+    let assignee: { userId: string | null; name: string | null } | null;
+    if (assigneeSpec === "なし") {
+      assignee = null;
+    } else if (assigneeSpec === "自分" && sender.userId) {
+      assignee = {
+        userId: sender.userId,
+        name:
+          (await getDisplayName(roomId, sender.sourceType, sender.userId)) ||
+          "自分",
+      };
+    } else if (sender.mentionedUserIds.length > 0) {
+      const userId = sender.mentionedUserIds[0];
+      assignee = {
+        userId,
+        name:
+          (await getDisplayName(roomId, sender.sourceType, userId)) ||
+          assigneeSpec.replace(/^@/, ""),
+      };
+    } else {
+      assignee = { userId: null, name: assigneeSpec.replace(/^@/, "") };
+    }
+
+    await assignItems(
+      list.id,
+      targetItems.map((item) => item.id),
+      assignee
+    );
+
+    const names = targetItems.map((item) => `「${item.item_text}」`).join("");
+    const text = assignee
+      ? `👤 ${names}の担当を${assignee.name}さんにしたよ！`
+      : `👤 ${names}の担当を外したよ！`;
+
+    const details = await showListDetails(roomId, list.list_name);
+    return [{ type: "text", text }, ...details];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "担当者の変更でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// 送った人が担当しているアイテムを全リストから集めて表示
+async function showMyItems(roomId: string, sender: Sender): Promise<any[]> {
+  if (!sender.userId) {
+    return [
+      {
+        type: "text",
+        text: "ごめん、送った人がわからなかった😅\nLINEの設定を確認してみてね！",
+      },
+    ];
+  }
+
+  try {
+    const items = await getAssignedItems(roomId, sender.userId);
+    if (items.length === 0) {
+      return [
+        {
+          type: "text",
+          text: "今は担当しているアイテムはないみたい🎉\n「おぼえるくん [リスト名] [番号] 担当 自分」で担当を決められるよ！",
+        },
+      ];
+    }
+
+    let text = "━━━━━━━━━━━━━━\n";
+    text += "👤 自分の担当アイテム\n";
+    text += "━━━━━━━━━━━━━━\n";
+
+    let currentListName = "";
+    for (const item of items) {
+      if (item.list_name !== currentListName) {
+        currentListName = item.list_name;
+        text += `\n【${currentListName}】\n`;
+      }
+      text += `  ・${formatItem(item)}\n`;
+    }
+
+    return [{ type: "text", text: text.trimEnd() }];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "担当アイテムの取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// リストをテキスト・CSV・Markdownで書き出す（長押しでコピーしやすいように中身だけのメッセージにする）
+async function exportListCommand(
+  roomId: string,
+  listName: string,
+  formatName?: string
+): Promise<any[]> {
+  const format = parseExportFormat(formatName);
+  if (!format) {
+    return [
+      {
+        type: "text",
+        text: `「${formatName}」の形式はわからなかった🤔\nテキスト・CSV・Markdown から選んでね！`,
+      },
+    ];
+  }
+
+  try {
+    const list = await getListWithItems(roomId, listName);
+    if (!list) {
+      return [
+        {
+          type: "text",
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
+        },
+      ];
+    }
+    if (!list.items || list.items.length === 0) {
+      return [
+        {
+          type: "text",
+          text: `【${list.list_name}】はまだ空っぽだよ～📝`,
+        },
+      ];
+    }
+
+    // ほかの形式で書き出し直すボタン
+    const otherFormats = (
+      Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]
+    ).filter((key) => key !== format);
+
+    return [
+      {
+        type: "text",
+        text: `📤【${list.list_name}】を${EXPORT_FORMAT_LABELS[format]}で書き出したよ！\n次のメッセージを長押ししてコピーしてね📋`,
+      },
+      {
+        type: "text",
+        text: exportList(list, format),
+        quickReply: {
+          items: otherFormats.map((key) => ({
+            type: "action",
+            action: {
+              type: "message",
+              label: `📤 ${EXPORT_FORMAT_LABELS[key]}`,
+              text: `おぼえるくん ${quoteArg(list.list_name)} 書き出し ${
+                EXPORT_FORMAT_LABELS[key]
+              }`,
+            },
+          })),
+        },
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "書き出しでエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// 「[番号 or アイテム名] 変更 [新しい内容]」でアイテムを書き換える
+async function editItemCommand(
+  roomId: string,
+  listName: string,
+  target: string,
+  newText: string
+): Promise<any[]> {
+  try {
+    const list = await getListWithItems(roomId, listName);
+    if (!list) {
+      return [
+        {
+          type: "text",
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
+        },
+      ];
+    }
+
+    const targetItems = resolveItemTargets(list.items || [], target);
+    if (targetItems.length !== 1) {
+      return [
+        {
+          type: "text",
+          text: `編集するアイテムは1つだけ指定してね🤔\n「おぼえるくん ${quoteArg(
+            list.list_name
+          )}」で番号を確認してみて！`,
+        },
+      ];
+    }
+
+    return await editItem(roomId, list.list_name, targetItems[0].id, newText);
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "アイテムの編集でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// 編集するアイテムの番号選択を開始
+async function startItemEdit(roomId: string, listName: string): Promise<any[]> {
+  try {
+    const list = await getListWithItems(roomId, listName);
+    if (!list || !list.items || list.items.length === 0) {
+      return [
+        {
+          type: "text",
+          text: `【${listName}】はまだ空っぽだよ～📝`,
+        },
+      ];
+    }
+
+    let text = "編集したいアイテムの番号を1つ入力してね✏️\n\n";
+    const allItems = list.items.map((item, index) => {
+      text += `  ${index + 1}. ${formatItem(item)}\n`;
+      return { number: index + 1, id: item.id, text: formatItem(item) };
+    });
+    text += "\nキャンセルする場合は「キャンセル」って送ってね。";
+
+    roomStates.set(roomId, {
+      waitingFor: "editItemNumber",
+      listName: list.list_name,
+      deleteTargets: {
+        type: "item",
+        ids: allItems.map((item) => item.id),
+        items: allItems,
+      },
+    });
+
+    return [{ type: "text", text }];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "リストの取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// アイテムの内容を書き換えて、最新の中身を返す
+async function editItem(
+  roomId: string,
+  listName: string,
+  itemId: number,
+  newText: string
+): Promise<any[]> {
+  try {
+    const list = await getListWithItems(roomId, listName);
+    const before = list?.items?.find((item) => item.id === itemId);
+    if (!list || !before) {
+      return [
+        {
+          type: "text",
+          text: `あれ？そのアイテムは【${listName}】に見つからなかった🤔\n「おぼえるくん ${quoteArg(
+            listName
+          )}」で中身を確認してみて！`,
+        },
+      ];
+    }
+
+    const after = await updateListItem(list.id, itemId, newText);
+    if (!after) {
+      return [
+        {
+          type: "text",
+          text: "新しい内容が空っぽみたい🤔\nもう一度試してみて！",
+        },
+      ];
+    }
+
+    const details = await showListDetails(roomId, list.list_name);
+    return [
+      {
+        type: "text",
+        text: `✏️「${formatItem(before)}」を「${formatItem(
+          after
+        )}」に書き換えたよ！`,
+      },
+      ...details,
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "アイテムの編集でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// アイテムの売り場を変更（次からは同じアイテムが自動でその売り場に入る）
+async function setSectionCommand(
+  roomId: string,
+  listName: string,
+  target: string,
+  section: string | null
+): Promise<any[]> {
+  try {
+    const list = await getListWithItems(roomId, listName);
+    if (!list) {
+      return [
+        {
+          type: "text",
+          text: `あれ？【${listName}】が見つからなかった🤔\n「おぼえるくん 一覧」で確認してみて！`,
+        },
+      ];
+    }
+
+    const targetItems = resolveItemTargets(list.items || [], target);
+    if (targetItems.length === 0) {
+      return [
+        {
+          type: "text",
+          text: `あれ？「${target}」が【${
+            list.list_name
+          }】に見つからなかった🤔\n「おぼえるくん ${quoteArg(
+            list.list_name
+          )}」で番号を確認してみて！`,
+        },
+      ];
+    }
+
+    await setItemsSection(
+      list.id,
+      targetItems.map((item) => item.id),
+      section
+    );
+
+    const names = targetItems.map((item) => `「${item.item_text}」`).join("");
+    const text = section
+      ? `🏷️ ${names}を【${section}】の売り場に入れたよ！\n次からは追加するだけで【${section}】に入るよ✨`
+      : `🏷️ ${names}の売り場を外したよ！`;
+
+    const details = await showListDetails(roomId, list.list_name);
+    return [{ type: "text", text }, ...details];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "売り場の変更でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// 番号選択モードを開始（番号の入力待ちにする）
+async function startItemSelection(
+  roomId: string,
+  listName: string,
+  itemAction: ItemAction
+): Promise<any[]> {
+  try {
+    const list = await getListWithItems(roomId, listName);
+    if (!list || !list.items || list.items.length === 0) {
+      return [
+        {
+          type: "text",
+          text: `【${listName}】はまだ空っぽだよ～📝`,
+        },
+      ];
+    }
+
+    const actionLabel = ITEM_ACTION_LABELS[itemAction];
+    let text = `${actionLabel}したいアイテムの番号を入力してね📝\n\n`;
+
+    const allItems = list.items.map((item, index) => {
+      text += `  ${index + 1}. ${
+        item.is_checked ? strikethrough(formatItem(item)) : formatItem(item)
+      }\n`;
+      return { number: index + 1, id: item.id };
+    });
+
+    text +=
+      "\n例: 1 3 5\n複数選択もできるよ👍\n\nキャンセルする場合は「キャンセル」って送ってね。";
+
+    roomStates.set(roomId, {
+      waitingFor: "itemNumbers",
+      listName,
+      itemAction,
+      deleteTargets: {
+        type: "item",
+        ids: allItems.map((item) => item.id),
+        items: allItems,
+      },
+    });
+
+    return [{ type: "text", text }];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "リストの取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// アイテムIDを指定して削除/チェック/チェック解除し、最新の中身を返す
+async function applyItemAction(
+  roomId: string,
+  listName: string,
+  itemIds: number[],
+  itemAction: ItemAction
+): Promise<any[]> {
+  try {
+    const list = await getListWithItems(roomId, listName);
+    if (!list) {
+      return [
+        {
+          type: "text",
+          text: `あれ？【${listName}】が見つからなかった🤔`,
+        },
+      ];
+    }
+
+    const targetItems = (list.items || []).filter((item) =>
+      itemIds.includes(item.id)
+    );
+    if (targetItems.length === 0) {
+      return [
+        {
+          type: "text",
+          text: `あれ？そのアイテムは【${listName}】に見つからなかった🤔\n「おぼえるくん ${quoteArg(
+            listName
+          )}」で中身を確認してみて！`,
+        },
+      ];
+    }
+
+    const ids = targetItems.map((item) => item.id);
+    const names = targetItems.map((item) => `「${item.item_text}」`).join("");
+    let header: string;
+
+    if (itemAction === "delete") {
+      const deletedCount = await deleteItemsFromList(roomId, listName, ids);
+      header = `よし！${names}を削除したよ🗑️（${deletedCount}件）\n間違えたときは「おぼえるくん ゴミ箱」から戻せるよ！`;
+    } else if (itemAction === "check") {
+      await setItemsChecked(list.id, ids, true);
+      header = `✅ ${names}をチェックしたよ！`;
+    } else {
+      await setItemsChecked(list.id, ids, false);
+      header = `↩️ ${names}のチェックを外したよ！`;
+    }
+
+    const details = await showListDetails(roomId, listName);
+    const messages = [{ type: "text", text: header }, ...details];
+    return itemAction === "delete" ? withUndoButton(messages) : messages;
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: `アイテムの${ITEM_ACTION_LABELS[itemAction]}でエラーが発生しちゃった😅\nもう一度試してみて！`,
+      },
+    ];
+  }
+}
+
+// チェック済みのアイテムを片付けて、最新の中身を返す
+async function clearCheckedAndShow(
+  roomId: string,
+  listName: string
+): Promise<any[]> {
+  try {
+    const clearedCount = await clearCheckedItems(roomId, listName);
+    if (clearedCount === 0) {
+      return [
+        {
+          type: "text",
+          text: `【${listName}】にチェック済みのアイテムはなかったよ🤔`,
+        },
+      ];
+    }
+
+    const details = await showListDetails(roomId, listName);
+    return withUndoButton([
+      {
+        type: "text",
+        text: `🧹 チェック済みのアイテムを${clearedCount}件片付けたよ！\n間違えたときは「おぼえるくん ゴミ箱」から戻せるよ！`,
+      },
+      ...details,
+    ]);
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "チェック済みアイテムの削除でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// チェック済みアイテムを打ち消し線で表示
+function strikethrough(text: string): string {
+  return Array.from(text)
+    .map((char) => char + "\u0336")
+    .join("");
+}
+
+// リスト名・アイテム・リマインダーをまとめて検索（見つかった場所を開くボタン付き）
+async function searchCommand(
+  roomId: string,
+  keyword: string,
+  from: "list" | "reminder"
+): Promise<any[]> {
+  try {
+    const results = await searchRoom(roomId, keyword);
+    const total =
+      results.lists.length + results.items.length + results.reminders.length;
+
+    if (total === 0) {
+      return [
+        {
+          type: "text",
+          text: `🔍「${keyword}」は見つからなかったよ🤔\n別の言葉で探してみてね！`,
+        },
+      ];
+    }
+
+    // 種類ごとに見出しをつけて並べる（多いものは省略）
+    const section = (title: string, lines: string[]) => {
+      if (lines.length === 0) {
+        return "";
+      }
+      let text = `\n${title}\n`;
+      text += lines
+        .slice(0, SEARCH_RESULT_LIMIT)
+        .map((line) => `  ・${line}\n`)
+        .join("");
+      if (lines.length > SEARCH_RESULT_LIMIT) {
+        text += `  …ほか${lines.length - SEARCH_RESULT_LIMIT}件\n`;
+      }
+      return text;
+    };
+
+    const listSection =
+      section(
+        "【リスト】📋",
+        results.lists.map((list) => list.list_name)
+      ) +
+      section(
+        "【アイテム】📝",
+        results.items.map(
+          (item) =>
+            `${item.is_checked ? "✅" : ""}${formatItem(item)}（${
+              item.list_name
+            }）`
+        )
+      );
+    const reminderSection = section(
+      "【リマインダー】⏰",
+      results.reminders.map(
+        (reminder) =>
+          `${priorityMark(reminder.priority)}${
+            reminder.message
+          }（${formatDateTime(new Date(reminder.remind_at))}）`
+      )
+    );
+
+    let text = "━━━━━━━━━━━━━━\n";
+    text += `🔍「${keyword}」の検索結果（${total}件）\n`;
+    text += "━━━━━━━━━━━━━━\n";
+    text +=
+      from === "reminder"
+        ? reminderSection + listSection
+        : listSection + reminderSection;
+
+    // 見つかったリスト・リマインダーを開くボタン（同じリストは1つにまとめる）
+    const listNames = Array.from(
+      new Set([
+        ...results.lists.map((list) => list.list_name),
+        ...results.items.map((item) => item.list_name),
+      ])
+    );
+    const listButtons = listNames.map((listName) => ({
+      type: "action",
+      action: {
+        type: "postback",
+        label: `📋 ${listName}`.substring(0, 20),
+        data: `action=show_list&list_name=${encodeURIComponent(listName)}`,
+        displayText: `おぼえるくん ${quoteArg(listName)}`,
+      },
+    }));
+    const reminderButtons = results.reminders.map((reminder) => ({
+      type: "action",
+      action: {
+        type: "postback",
+        label: `⏰ ${reminder.reminder_name}`.substring(0, 20),
+        data: `action=show_reminder&reminder_name=${encodeURIComponent(
+          reminder.reminder_name
+        )}`,
+        displayText: `おしえてくん ${quoteArg(reminder.reminder_name)}`,
+      },
+    }));
+    const buttons =
+      from === "reminder"
+        ? [...reminderButtons, ...listButtons]
+        : [...listButtons, ...reminderButtons];
+
+    return [
+      {
+        type: "text",
+        text: text.trimEnd(),
+        quickReply: { items: buttons.slice(0, 13) },
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "検索でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// ゴミ箱を表示、番号がついていればそのまま元に戻す
+async function trashCommand(
+  roomId: string,
+  numbersText: string
+): Promise<any[]> {
+  try {
+    const entries = await getTrash(roomId);
+
+    if (numbersText) {
+      const targets = parseNumbers(numbersText)
+        .filter((number) => number >= 1 && number <= entries.length)
+        .map((number) => entries[number - 1]);
+      if (targets.length === 0) {
+        return [
+          {
+            type: "text",
+            text: "指定された番号が見つからなかったよ🤔\n「おぼえるくん ゴミ箱」で番号を確認してみて！",
+          },
+        ];
+      }
+      return await restoreTrashEntries(roomId, targets);
+    }
+
+    if (entries.length === 0) {
+      return [{ type: "text", text: "ゴミ箱は空っぽだよ🗑️✨" }];
+    }
+
+    let text = "━━━━━━━━━━━━━━\n";
+    text += "🗑️ ゴミ箱\n";
+    text += "━━━━━━━━━━━━━━\n\n";
+
+    entries.forEach((entry, index) => {
+      text += `${index + 1}. ${formatTrashEntry(entry)}\n`;
+      text += `   削除: ${formatDateTime(new Date(entry.deleted_at))}\n`;
+    });
+
+    text += `\n${TRASH_RETENTION_DAYS}日たつと完全に削除されるよ。\n「おぼえるくん ゴミ箱 [番号]」でも戻せるよ！`;
+
+    return [
+      {
+        type: "text",
+        text,
+        quickReply: {
+          items: [
+            {
+              type: "action",
+              action: {
+                type: "postback",
+                label: "♻️ 番号で戻す",
+                data: "action=restore_trash",
+                displayText: "ゴミ箱から戻す",
+              },
+            },
+          ],
+        },
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "ゴミ箱の取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// ゴミ箱の中身を番号で選んで戻す準備
+async function startTrashRestore(roomId: string): Promise<any[]> {
+  try {
+    const entries = await getTrash(roomId);
+    if (entries.length === 0) {
+      return [{ type: "text", text: "ゴミ箱は空っぽだよ🗑️✨" }];
+    }
+
+    roomStates.set(roomId, {
+      waitingFor: "restoreNumbers",
+      trashEntries: entries,
+    });
+
+    let text = "戻したいものの番号を入力してね📝\n\n";
+    entries.forEach((entry, index) => {
+      text += `${index + 1}. ${formatTrashEntry(entry)}\n`;
+    });
+    text += "\n例: 1 3\n\nキャンセルする場合は「キャンセル」って送ってね。";
+
+    return [{ type: "text", text }];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "ゴミ箱の取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// ゴミ箱から元に戻して結果をまとめる
+async function restoreTrashEntries(
+  roomId: string,
+  entries: TrashEntry[]
+): Promise<any[]> {
+  try {
+    const restored: string[] = [];
+    const conflicts: string[] = [];
+    const missing: string[] = [];
+
+    for (const entry of entries) {
+      const result = await restoreFromTrash(roomId, entry);
+      const label = formatTrashEntry(entry);
+      if (result === "restored") {
+        restored.push(label);
+      } else if (result === "conflict") {
+        conflicts.push(label);
+      } else {
+        missing.push(label);
+      }
+    }
+
+    let text = "";
+    if (restored.length > 0) {
+      text += `♻️ 元に戻したよ！\n${restored
+        .map((label) => `  ・${label}`)
+        .join("\n")}\n`;
+    }
+    if (conflicts.length > 0) {
+      text += `\n⚠️ 同じ名前のものがあるから戻せなかったよ\n${conflicts
+        .map((label) => `  ・${label}`)
+        .join("\n")}\n名前を変えてからもう一度試してね！\n`;
+    }
+    if (missing.length > 0) {
+      text += `\n🤔 もうゴミ箱に見つからなかったよ\n${missing
+        .map((label) => `  ・${label}`)
+        .join("\n")}\n`;
+    }
+
+    return [{ type: "text", text: text.trim() }];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "元に戻すときにエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// 直前の操作を元に戻す
+async function undoCommand(roomId: string): Promise<any[]> {
+  try {
+    const result = await undoLastOperation(roomId);
+
+    if (result.status === "nothing") {
+      return [{ type: "text", text: "元に戻せる操作はないみたい🤔" }];
+    }
+
+    const label = describeOperation(result.entry);
+
+    if (result.restored === 0) {
+      const reason =
+        result.conflicts > 0
+          ? "同じ名前のものが今あるから戻せなかったよ😅\n名前を変えてからゴミ箱から戻してね！"
+          : "もう元に戻せない状態になってたよ😅";
+      return [{ type: "text", text: `↩️ ${label}\n${reason}` }];
+    }
+
+    let text = `↩️ ${label}を元に戻したよ！`;
+    if (result.conflicts > 0) {
+      text += `\n（同じ名前のものがある${result.conflicts}件は戻せなかったよ）`;
+    }
+    return [{ type: "text", text }];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "元に戻すときにエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// 操作履歴の1件を表示用の文字列にする
+function describeOperation(entry: JournalEntry): string {
+  const payload = entry.payload;
+  const names = (payload.names || [])
+    .map((name: string) => `「${name}」`)
+    .join("");
+
+  switch (entry.operation) {
+    case "delete_items":
+      return `【${payload.listName}】の${names}の削除`;
+    case "delete_list":
+      return `【${payload.listName}】の削除`;
+    case "leave_list":
+      return `共有リスト【${payload.listName}】からの退出`;
+    case "delete_reminders":
+      return `リマインダー${names}の削除`;
+    case "cleanup":
+      return `クリーンアップ（リマインダー${payload.reminderIds.length}件・リスト${payload.listIds.length}件）`;
+    case "snooze":
+      return `【${payload.reminderName}】のスヌーズ`;
+  }
+}
+
+// 返信の最後のメッセージに「元に戻す」ボタンを付ける（クイックリプライは最後のメッセージのものだけ表示される）
+function withUndoButton(messages: any[]): any[] {
+  const last = messages[messages.length - 1];
+  const undoButton = {
+    type: "action",
+    action: {
+      type: "postback",
+      label: "↩️ 元に戻す",
+      data: "action=undo",
+      displayText: "元に戻す",
+    },
+  };
+  const items = [undoButton, ...(last.quickReply?.items || [])].slice(0, 13);
+
+  return [...messages.slice(0, -1), { ...last, quickReply: { items } }];
+}
+
+// ゴミ箱の1件を表示用の文字列にする
+function formatTrashEntry(entry: TrashEntry): string {
+  if (entry.type === "list") {
+    return `📋 リスト【${entry.name}】`;
+  }
+  if (entry.type === "item") {
+    return `📝 「${entry.name}」（【${entry.list_name}】）`;
+  }
+  return `⏰ リマインダー【${entry.name}】`;
+}
+
+// リマインダーコマンド処理
+async function processReminderCommand(
+  roomId: string,
+  message: string
+): Promise<any[]> {
+  const parts = tokenizeCommand(message);
+
+  // 「おしえてくん」のみ
+  if (parts.length === 1) {
+    return await showHelp();
+  }
+
+  // 「おしえてくん 一覧」
+  if (parts.length === 2 && parts[1] === "一覧") {
+    return await showReminderIndex(roomId);
   }
 
   // 「おしえてくん 削除」
@@ -992,44 +3227,114 @@ async function processReminderCommand(
     ];
   }
 
+  // 「おしえてくん 検索 [キーワード]」（リマインダーを先に表示）
+  if (parts.length >= 3 && parts[1] === "検索") {
+    return await searchCommand(roomId, parts.slice(2).join(" "), "reminder");
+  }
+
+  // 「おしえてくん 元に戻す」
+  if (parts.length === 2 && parts[1] === "元に戻す") {
+    return await undoCommand(roomId);
+  }
+
+  // 「おしえてくん ゴミ箱」「おしえてくん ゴミ箱 [番号]」（おぼえるくんと同じゴミ箱）
+  if (parts[1] === "ゴミ箱") {
+    return await trashCommand(roomId, parts.slice(2).join(" "));
+  }
+
   // 「おしえてくん 履歴」
   if (parts.length === 2 && parts[1] === "履歴") {
+    return await showReminderHistory(roomId);
+  }
+
+  // 「おしえてくん しつこく [30分おき] [5回まで]」「おしえてくん しつこく なし」
+  if (parts[1] === "しつこく" || parts[1] === "催促") {
+    return await roomNagCommand(roomId, restOfCommand(message, 2));
+  }
+
+  // 「おしえてくん [リマインダー名] 変更 [日付] [時刻] [用件] [毎週] [優先度 高]」（内容を省略すると入力待ち）
+  if (parts.length >= 3 && parts[2] === "変更") {
     try {
-      const completed = await getCompletedReminders(roomId, 10);
-      if (completed.length === 0) {
-        return [
-          { type: "text", text: "まだ完了したリマインダーがないみたい📜" },
-        ];
+      const resolution = resolveName(
+        await getReminders(roomId),
+        parts[1],
+        (reminder) => reminder.reminder_name
+      );
+      // 取り違えると困るので、前方一致・似た名前のときは確認してから
+      if (
+        resolution.status === "not_found" ||
+        !isConfidentMatch(resolution.match)
+      ) {
+        return suggestNames(
+          "リマインダー",
+          parts[1],
+          resolution.status === "not_found"
+            ? resolution.suggestions.map((reminder) => reminder.reminder_name)
+            : [resolution.value.reminder_name],
+          (name) =>
+            `おしえてくん ${quoteArg(name)} ${restOfCommand(message, 2)}`,
+          "おしえてくん 一覧"
+        );
       }
 
-      let text = "━━━━━━━━━━━━━━\n";
-      text += "📜 完了したリマインダー履歴\n";
-      text += "━━━━━━━━━━━━━━\n\n";
-
-      completed.forEach((reminder, index) => {
-        text += `${index + 1}. ✅ ${reminder.message}\n`;
-        text += `   完了: ${formatDateTime(new Date(reminder.updated_at))}\n\n`;
-      });
+      const reminderName = resolution.value.reminder_name;
+      if (parts.length === 3) {
+        return startReminderEdit(roomId, reminderName);
+      }
 
-      return [{ type: "text", text }];
+      const parsed = parseReminderChanges(restOfCommand(message, 3));
+      if (!parsed.success) {
+        return [{ type: "text", text: parsed.error }];
+      }
+      return await editReminderCommand(roomId, reminderName, parsed.changes);
     } catch (error) {
       console.error("Database error:", error);
-      return [{ type: "text", text: "履歴の取得でエラーが発生しちゃった😅" }];
+      return [
+        {
+          type: "text",
+          text: "リマインダーの変更でエラーが発生しちゃった😅\nもう一度試してみて！",
+        },
+      ];
     }
   }
 
+  // 「おしえてくん [リマインダー名]」
+  if (parts.length === 2) {
+    return await showReminderDetails(roomId, parts[1]);
+  }
+
   // 「おしえてくん [リマインダー名] 削除」
   if (parts.length === 3 && parts[2] === "削除") {
-    const reminderName = parts[1];
     try {
+      const resolution = resolveName(
+        await getReminders(roomId),
+        parts[1],
+        (reminder) => reminder.reminder_name
+      );
+      // 取り違えると困るので、前方一致・似た名前のときは確認してから
+      if (
+        resolution.status === "not_found" ||
+        !isConfidentMatch(resolution.match)
+      ) {
+        return suggestNames(
+          "リマインダー",
+          parts[1],
+          resolution.status === "not_found"
+            ? resolution.suggestions.map((reminder) => reminder.reminder_name)
+            : [resolution.value.reminder_name],
+          (name) => `おしえてくん ${quoteArg(name)} 削除`,
+          "おしえてくん 一覧"
+        );
+      }
+      const reminderName = resolution.value.reminder_name;
       const deleted = await deleteReminder(roomId, reminderName);
       if (deleted) {
-        return [
+        return withUndoButton([
           {
             type: "text",
-            text: `【${reminderName}】のリマインダーを削除したよ🗑️`,
+            text: `【${reminderName}】のリマインダーをゴミ箱に移したよ🗑️\n間違えたときは「おしえてくん ゴミ箱」から戻せるよ！`,
           },
-        ];
+        ]);
       } else {
         return [
           {
@@ -1048,14 +3353,19 @@ async function processReminderCommand(
   if (parts.length >= 4) {
     const dateStr = parts[1];
     const timeStr = parts[2];
-    const taskParts = parts.slice(3);
 
-    // 繰り返しパターンを検出
-    const fullMessage = taskParts.join(" ");
-    const repeatPattern = parseRepeatPattern(fullMessage);
-    const task = fullMessage
-      .replace(/毎日|毎週|毎月|まいにち|まいしゅう|まいつき/g, "")
-      .trim();
+    // 優先度の目印と繰り返しパターンを検出（用件はカッコも含めて入力のまま使う）
+    const { priority, text: withoutPriority } = parsePriority(
+      restOfCommand(message, 3)
+    );
+    const { advanceNotices, text: withoutAdvanceNotices } =
+      parseAdvanceNotices(withoutPriority);
+    const { missedPolicy, text: withoutMissedPolicy } = parseMissedPolicy(
+      withoutAdvanceNotices
+    );
+    // 「しつこく 5回まで」を繰り返しの回数と取り違えないよう、繰り返しより先に読む
+    const { nag, text: fullMessage } = parseNagPolicy(withoutMissedPolicy);
+    const { pattern: repeatPattern, text: task } = parseRepeat(fullMessage);
 
     console.log(`[REMINDER] Parsing: ${dateStr} ${timeStr}`);
     const parsed = parseDateTime(dateStr, timeStr);
@@ -1077,6 +3387,9 @@ async function processReminderCommand(
       ];
     }
 
+    // 「毎週月水金」なら最初の回もその曜日に合わせる
+    const remindAt = alignToRepeatPattern(repeatPattern, parsed.date);
+
     try {
       // リマインダー名は用件の最初の20文字程度
       const reminderName = task.substring(0, 20);
@@ -1085,7 +3398,7 @@ async function processReminderCommand(
         roomId,
         reminderName,
         task,
-        remindAt: parsed.date.toISOString(),
+        remindAt: remindAt.toISOString(),
         repeatPattern,
       });
 
@@ -1093,8 +3406,12 @@ async function processReminderCommand(
         roomId,
         reminderName,
         task,
-        parsed.date,
-        repeatPattern || undefined
+        remindAt,
+        repeatPattern || undefined,
+        priority || undefined,
+        missedPolicy || undefined,
+        advanceNotices || undefined,
+        nag || undefined
       );
 
       console.log(`[REMINDER] Created reminder ID:`, createdReminder.id);
@@ -1103,21 +3420,49 @@ async function processReminderCommand(
       confirmText += "⏰ リマインダーを設定したよ！\n";
       confirmText += "━━━━━━━━━━━━━━\n\n";
       confirmText += `＜いつ＞\n  ${formatDateTime(
-        parsed.date
-      )} (${getRelativeTime(parsed.date)})\n\n`;
+        remindAt
+      )} (${getRelativeTime(remindAt)})\n\n`;
       confirmText += `＜用件＞\n  ${task}\n\n`;
       confirmText += `＜デバッグ情報＞\n  リマインダーID: ${
         createdReminder.id
-      }\n  保存日時(UTC): ${parsed.date.toISOString()}\n\n`;
+      }\n  保存日時(UTC): ${remindAt.toISOString()}\n\n`;
 
       if (repeatPattern) {
-        const repeatText =
-          repeatPattern === "daily"
-            ? "毎日"
-            : repeatPattern === "weekly"
-            ? "毎週"
-            : "毎月";
-        confirmText += `＜繰り返し＞\n  ${repeatText} 🔄\n\n`;
+        confirmText += `＜繰り返し＞\n  ${describeRepeatPattern(
+          repeatPattern
+        )} 🔄\n  見逃した回は${missedPolicyLabel(
+          createdReminder.missed_policy
+        )}\n\n`;
+      }
+
+      if (priority === "high" && !nag) {
+        confirmText += `＜優先度＞\n  ${priorityLabel(
+          priority
+        )}（完了するまで${HIGH_PRIORITY_RENOTIFY_MINUTES}分ごとにお知らせするよ）\n\n`;
+      } else if (priority === "high") {
+        confirmText += `＜優先度＞\n  ${priorityLabel(priority)}\n\n`;
+      } else if (priority === "low") {
+        confirmText += `＜優先度＞\n  ${priorityLabel(
+          priority
+        )}（${LOW_PRIORITY_DIGEST_HOURS.map((hour) => `${hour}時`).join(
+          "・"
+        )}にまとめてお知らせするよ）\n\n`;
+      }
+
+      if (nag) {
+        confirmText += `＜催促＞\n  ${
+          nag.intervalMinutes > 0
+            ? `完了するまで${leadTimeLabel(nag.intervalMinutes)}おきに最大${
+                nag.maxCount
+              }回お知らせするよ📣`
+            : "お知らせは1回だけにするよ🔕"
+        }\n\n`;
+      }
+
+      if (advanceNotices && advanceNotices.length > 0) {
+        confirmText += `＜事前通知＞\n  ${advanceNoticesLabel(
+          advanceNotices
+        )}にもお知らせするよ🔔\n\n`;
       }
 
       // リスト名が含まれているかチェック
@@ -1153,79 +3498,418 @@ async function processReminderCommand(
   ];
 }
 
-// リマインダー詳細表示（ボタン付き）
-async function showReminderDetails(
+// リマインダー一覧表示（多いときは「もっと見る」でページ送り）
+async function showReminderIndex(
   roomId: string,
-  reminderName: string
+  page: number = 0
 ): Promise<any[]> {
   try {
-    const reminder = await getReminderByName(roomId, reminderName);
-    if (!reminder) {
+    const categorized = await getCategorizedReminders(roomId);
+
+    if (
+      categorized.active.length === 0 &&
+      categorized.pending.length === 0 &&
+      categorized.completed.length === 0
+    ) {
       return [
         {
           type: "text",
-          text: `【${reminderName}】のリマインダーが見つからなかった🤔`,
+          text: "まだリマインダーがないみたい⏰\n「おしえてくん 明日 9時 ゴミ出し」みたいに登録してみよう！",
         },
       ];
     }
 
-    const priority =
-      reminder.priority === "high"
-        ? "🔴高"
-        : reminder.priority === "low"
-        ? "🟢低"
-        : "🟡中";
-    const repeat =
-      reminder.repeat_pattern === "daily"
-        ? "🔄毎日"
-        : reminder.repeat_pattern === "weekly"
-        ? "🔄毎週"
-        : reminder.repeat_pattern === "monthly"
-        ? "🔄毎月"
-        : "なし";
-
-    let text = "━━━━━━━━━━━━━━\n";
-    text += `⏰ リマインダー詳細\n`;
-    text += "━━━━━━━━━━━━━━\n\n";
-    text += `＜用件＞\n  ${reminder.message}\n\n`;
-    text += `＜日時＞\n  ${formatDateTime(
-      new Date(reminder.remind_at)
-    )}\n  (${getRelativeTime(new Date(reminder.remind_at))})\n\n`;
-    text += `＜優先度＞\n  ${priority}\n\n`;
-    text += `＜繰り返し＞\n  ${repeat}\n\n`;
-    text += "次のアクションを選んでね！";
+    // 未完了 → 期限超過の順に通し番号をふる（「おしえてくん 削除」で使う）
+    const allItems = [
+      ...categorized.active.map((reminder) => ({
+        id: reminder.id,
+        type: "active",
+      })),
+      ...categorized.pending.map((reminder) => ({
+        id: reminder.id,
+        type: "pending",
+      })),
+    ].map((item, index) => ({ number: index + 1, ...item }));
+
+    // 状態を保存（削除機能用）
+    roomStates.set(roomId, {
+      waitingFor: "none",
+      deleteTargets: {
+        type: "reminder",
+        ids: allItems.map((item) => item.id),
+        items: allItems,
+      },
+    });
 
     const quickReply = {
       items: [
         {
           type: "action",
           action: {
-            type: "postback",
+            type: "message",
             label: "🗑️ 削除",
-            data: `action=delete_reminder&reminder_name=${encodeURIComponent(
-              reminderName
-            )}`,
-            displayText: `おしえてくん ${reminderName} 削除`,
+            text: "おしえてくん 削除",
           },
         },
         {
           type: "action",
           action: {
             type: "message",
-            label: "📋 一覧に戻る",
+            label: "🔄 更新",
             text: "おしえてくん 一覧",
           },
         },
+        {
+          type: "action",
+          action: {
+            type: "message",
+            label: "📋 戻る",
+            text: "使い方",
+          },
+        },
       ],
     };
 
     return [
       {
-        type: "text",
-        text: text,
+        ...buildReminderListMessage(categorized, page),
         quickReply: quickReply,
       },
     ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "リマインダー一覧の取得でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// 完了したリマインダー履歴（多いときは「もっと見る」でページ送り）
+async function showReminderHistory(
+  roomId: string,
+  page: number = 0
+): Promise<any[]> {
+  try {
+    // 続きがあるか分かるように1件多めに取る
+    const completed = await getCompletedReminders(
+      roomId,
+      HISTORY_PAGE_SIZE + 1,
+      page * HISTORY_PAGE_SIZE
+    );
+    if (completed.length === 0) {
+      return [
+        {
+          type: "text",
+          text:
+            page === 0
+              ? "まだ完了したリマインダーがないみたい📜"
+              : "これ以上の履歴はないみたい📜",
+        },
+      ];
+    }
+
+    const hasMore = completed.length > HISTORY_PAGE_SIZE;
+
+    let text = "━━━━━━━━━━━━━━\n";
+    text += `📜 完了したリマインダー履歴${
+      page > 0 ? `（${page + 1}ページ目）` : ""
+    }\n`;
+    text += "━━━━━━━━━━━━━━\n\n";
+
+    completed.slice(0, HISTORY_PAGE_SIZE).forEach((reminder, index) => {
+      text += `${page * HISTORY_PAGE_SIZE + index + 1}. ✅ ${
+        reminder.message
+      }\n`;
+      text += `   完了: ${formatDateTime(new Date(reminder.updated_at))}\n\n`;
+    });
+
+    if (!hasMore) {
+      return [{ type: "text", text: text.trimEnd() }];
+    }
+
+    return [
+      {
+        type: "text",
+        text: text.trimEnd(),
+        quickReply: {
+          items: [
+            {
+              type: "action",
+              action: {
+                type: "postback",
+                label: "▶️ もっと見る",
+                data: `action=reminder_history&page=${page + 1}`,
+                displayText: "もっと見る",
+              },
+            },
+          ],
+        },
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [{ type: "text", text: "履歴の取得でエラーが発生しちゃった😅" }];
+  }
+}
+
+// リマインダーの変更内容の入力待ちにする
+function startReminderEdit(roomId: string, reminderName: string): any[] {
+  roomStates.set(roomId, { waitingFor: "reminderEdit", reminderName });
+  return [
+    {
+      type: "text",
+      text: `✏️【${reminderName}】をどう変更する？\n変えたいところだけ送ってね📝\n\n・日時：明日 10時\n・用件：日時の後ろに続けて書く\n・繰り返し：毎日 / 毎週月水金 / 毎月末 / 繰り返しなし\n・優先度：優先度 高 / 中 / 低\n・見逃した回：見逃し まとめて / 見逃し 全部\n・事前通知：1日前と1時間前にも / 事前通知なし\n・催促：しつこく 30分おき 5回まで / しつこく なし\n\n例：\n明後日 19時 歯医者に行く\n毎週 優先度 高\n\nキャンセルする場合は「キャンセル」って送ってね。`,
+    },
+  ];
+}
+
+// このトークの催促の設定（引数なしなら今の設定を表示）
+async function roomNagCommand(roomId: string, args: string): Promise<any[]> {
+  try {
+    if (!args) {
+      const current = await getRoomNagPolicy(roomId);
+      const status = !current
+        ? `今は優先度「高」のリマインダーだけ、完了するまで${HIGH_PRIORITY_RENOTIFY_MINUTES}分おきにお知らせしてるよ📣`
+        : current.intervalMinutes > 0
+        ? `今は完了されていないリマインダーを${leadTimeLabel(
+            current.intervalMinutes
+          )}おきに最大${current.maxCount}回お知らせしてるよ📣`
+        : "今はお知らせを1回だけにしてるよ🔕";
+      return [
+        {
+          type: "text",
+          text: `${status}\n\n・おしえてくん しつこく 30分おき 5回まで\n・おしえてくん しつこく なし\n\n用件に「しつこく」を付けると、リマインダーごとにも決められるよ！`,
+          quickReply: {
+            items: [
+              "しつこく 30分おき",
+              "しつこく 1時間おき",
+              "しつこく なし",
+            ].map((label) => ({
+              type: "action",
+              action: {
+                type: "message",
+                label,
+                text: `おしえてくん ${label}`,
+              },
+            })),
+          },
+        },
+      ];
+    }
+
+    const { nag, text: rest } = parseNagPolicy(`しつこく ${args}`);
+    if (!nag || rest) {
+      return [
+        {
+          type: "text",
+          text: "書き方がちょっと違うみたい🤔\n例：おしえてくん しつこく 30分おき 5回まで",
+        },
+      ];
+    }
+
+    await setRoomNagPolicy(roomId, nag);
+    return [
+      {
+        type: "text",
+        text:
+          nag.intervalMinutes > 0
+            ? `完了されていないリマインダーは${leadTimeLabel(
+                nag.intervalMinutes
+              )}おきに最大${
+                nag.maxCount
+              }回お知らせするね📣\n回を重ねるごとに強めに言うよ！`
+            : "このトークのリマインダーはお知らせを1回だけにするね🔕\n（優先度「高」も催促しないよ）",
+      },
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [{ type: "text", text: "設定の変更でエラーが発生しちゃった😅" }];
+  }
+}
+
+// リマインダーを変更して、変更前 → 変更後と詳細を表示
+async function editReminderCommand(
+  roomId: string,
+  reminderName: string,
+  changes: ReminderChanges
+): Promise<any[]> {
+  try {
+    const reminder = await getReminderByName(roomId, reminderName);
+    if (!reminder) {
+      return [
+        {
+          type: "text",
+          text: `【${reminderName}】のリマインダーが見つからなかった🤔\n「おしえてくん 一覧」で確認してみて！`,
+        },
+      ];
+    }
+
+    const newMessage = changes.message ?? reminder.message;
+    const repeatPattern =
+      changes.repeatPattern !== undefined
+        ? changes.repeatPattern
+        : reminder.repeat_pattern;
+    const priority = changes.priority ?? reminder.priority;
+    const missedPolicy = changes.missedPolicy ?? reminder.missed_policy;
+    const advanceNotices =
+      changes.advanceNotices ?? reminder.advance_notices ?? [];
+    // 日時か繰り返しを変えたときは、繰り返しの曜日・日にちに合わせる
+    const remindAt =
+      changes.remindAt || changes.repeatPattern
+        ? alignToRepeatPattern(
+            repeatPattern,
+            changes.remindAt ?? new Date(reminder.remind_at)
+          )
+        : new Date(reminder.remind_at);
+
+    const summary: string[] = [];
+    if (remindAt.getTime() !== new Date(reminder.remind_at).getTime()) {
+      summary.push(
+        `📅 日時：${formatDateTime(
+          new Date(reminder.remind_at)
+        )} → ${formatDateTime(remindAt)}`
+      );
+    }
+    if (newMessage !== reminder.message) {
+      summary.push(`📝 用件：${reminder.message} → ${newMessage}`);
+    }
+    if (repeatPattern !== reminder.repeat_pattern) {
+      summary.push(
+        `🔁 繰り返し：${repeatLabel(reminder.repeat_pattern)} → ${repeatLabel(
+          repeatPattern
+        )}`
+      );
+    }
+    if (priority !== reminder.priority) {
+      summary.push(
+        `⭐ 優先度：${priorityLabel(reminder.priority)} → ${priorityLabel(
+          priority
+        )}`
+      );
+    }
+
+    if (missedPolicy !== reminder.missed_policy) {
+      summary.push(
+        `📭 見逃し：${missedPolicyLabel(
+          reminder.missed_policy
+        )} → ${missedPolicyLabel(missedPolicy)}`
+      );
+    }
+
+    if (
+      advanceNoticesLabel(advanceNotices) !==
+      advanceNoticesLabel(reminder.advance_notices)
+    ) {
+      summary.push(
+        `🔔 事前通知：${advanceNoticesLabel(
+          reminder.advance_notices
+        )} → ${advanceNoticesLabel(advanceNotices)}`
+      );
+    }
+
+    if (
+      changes.nag &&
+      (changes.nag.intervalMinutes !== reminder.nag_interval_minutes ||
+        changes.nag.maxCount !== reminder.nag_max_count)
+    ) {
+      summary.push(
+        `📣 催促：${
+          nagPolicyLabel(reminder) ?? "トークの設定"
+        } → ${nagPolicyLabel({
+          ...reminder,
+          nag_interval_minutes: changes.nag.intervalMinutes,
+          nag_max_count: changes.nag.maxCount,
+        })}`
+      );
+    }
+
+    if (summary.length === 0) {
+      return [
+        {
+          type: "text",
+          text: `【${reminderName}】は今の内容と同じだったから、そのままにしたよ👌`,
+        },
+      ];
+    }
+
+    await updateReminder(
+      roomId,
+      reminderName,
+      newMessage,
+      remindAt,
+      repeatPattern || undefined,
+      priority,
+      changes.missedPolicy,
+      changes.advanceNotices
+    );
+    if (changes.nag) {
+      await setReminderNagPolicy(roomId, reminderName, changes.nag);
+    }
+
+    const details = await showReminderDetails(roomId, reminderName);
+    return [
+      {
+        type: "text",
+        text: `✏️【${reminderName}】を変更したよ！\n━━━━━━━━━━━━━━\n${summary.join(
+          "\n"
+        )}\n━━━━━━━━━━━━━━`,
+      },
+      ...details,
+    ];
+  } catch (error) {
+    console.error("Database error:", error);
+    return [
+      {
+        type: "text",
+        text: "リマインダーの変更でエラーが発生しちゃった😅\nもう一度試してみて！",
+      },
+    ];
+  }
+}
+
+// リマインダー詳細表示（ボタン付き）
+async function showReminderDetails(
+  roomId: string,
+  reminderName: string
+): Promise<any[]> {
+  try {
+    const reminders = await getReminders(roomId);
+    const resolution = resolveName(
+      reminders,
+      reminderName,
+      (reminder) => reminder.reminder_name
+    );
+    if (resolution.status === "not_found") {
+      return suggestNames(
+        "リマインダー",
+        reminderName,
+        resolution.suggestions.map((reminder) => reminder.reminder_name),
+        (name) => `おしえてくん ${quoteArg(name)}`,
+        "おしえてくん 一覧"
+      );
+    }
+    const reminder = resolution.value;
+
+    return [
+      {
+        ...buildReminderMessage(reminder),
+        quickReply: {
+          items: [
+            {
+              type: "action",
+              action: {
+                type: "message",
+                label: "📋 一覧に戻る",
+                text: "おしえてくん 一覧",
+              },
+            },
+          ],
+        },
+      },
+    ];
   } catch (error) {
     console.error("Database error:", error);
     return [
@@ -1248,12 +3932,62 @@ async function showHelp(): Promise<any[]> {
     → アイテムを追加
   ・おぼえるくん [リスト名]
     → リストの中身を表示
-  ・おぼえるくん [リスト名] [アイテム名] 削除
-    → 1つのアイテムを削除
+  ・おぼえるくん [リスト名] [番号 or アイテム名] 削除
+    → アイテムを削除（例：おぼえるくん 買い物 1 3 削除）
+  ・おぼえるくん [リスト名] [番号 or アイテム名] チェック
+    → 買ったものにチェック（「チェック解除」で戻す）
+  ・おぼえるくん [リスト名] 選んで削除 / 選んでチェック
+    → 番号を選んでまとめて操作
+  ・おぼえるくん [リスト名] チェック済み削除
+    → チェック済みのアイテムをまとめて削除
+  ・おぼえるくん [リスト名] [番号] 変更 [新しい内容]
+    → アイテムを書き換え（並び順はそのまま）
+  ・おぼえるくん [リスト名] [番号] 担当 [自分 or @メンション]
+    → 買う人・やる人を決める（「なし」で解除）
+  ・おぼえるくん 自分の担当
+    → 全リストから自分の担当アイテムを表示
+  ・おぼえるくん [リスト名] [番号] 売り場 [売り場名]
+    → 売り場ごとに並べる（追加時に「野菜: にんじん」でもOK）
+  ・おぼえるくん [リスト名] [番号] 移動 [移動先]
+    → アイテムを別のリストへ移動
+  ・おぼえるくん [リスト名] 名前変更 [新しい名前]
+    → リストの名前を変更
+  ・おぼえるくん [リスト名] 書き出し [CSV / Markdown]
+    → コピー用に書き出す（省略するとテキスト）
   ・おぼえるくん [リスト名] 削除
     → リスト全体を削除
+  ・おぼえるくん ゴミ箱
+    → 削除したものを番号で元に戻す
+  ・元に戻す
+    → 直前の削除やスヌーズを取り消す
+
+＜共有＞
+  ・おぼえるくん [リスト名] 共有
+    → 共有コードを発行
+  ・おぼえるくん 参加 [共有コード]
+    → ほかのトークのリストを一緒に使う
+  ・おぼえるくん [リスト名] 共有解除
+    → 共有をやめる
+
+＜テンプレート・複製＞
+  ・おぼえるくん [リスト名] テンプレ保存
+    → リストをテンプレートとして保存
+  ・おぼえるくん テンプレ一覧
+    → テンプレートから新しいリストを作成
+  ・おぼえるくん テンプレ [テンプレ名] [新しいリスト名]
+    → テンプレートからリストを作成
+  ・おぼえるくん [リスト名] 複製 [新しいリスト名]
+    → リストを複製（最後に「リセット」でチェックを外す）
   ・おぼえるくん 一覧
     → 全リスト一覧（ボタンで選択可能）
+  ・おぼえるくん [リスト名] ピン留め
+    → 一覧のいちばん上に固定（「ピン留め解除」で戻す）
+  ・おぼえるくん [リスト名] 並び替え [番号]
+    → 一覧で好きな位置に動かす
+  ・おぼえるくん 並び順 [作成順 / よく使う順 / 手動]
+    → 一覧の並べ方を変える
+  ・おぼえるくん 検索 [キーワード]
+    → リスト・アイテム・リマインダーから探す
   ・おぼえるくん bye
     → 退室
 
@@ -1266,10 +4000,19 @@ async function showHelp(): Promise<any[]> {
     → リマインダー登録
   ・おしえてくん 一覧
     → リマインダー一覧（ボタンで選択可能）
+  ・おしえてくん [用件]
+    → リマインダーの詳細を表示
+  ・おしえてくん [用件] 変更 [日付] [時刻]
+    → 日時・用件・繰り返し・優先度を変更
+      （例：おしえてくん 歯医者 変更 毎週 優先度 高）
   ・おしえてくん 削除
     → 複数選択削除
   ・おしえてくん 履歴
     → 完了済みリマインダー
+  ・おしえてくん 検索 [キーワード]
+    → リマインダーとリストから探す
+  ・おしえてくん ゴミ箱
+    → 削除したリマインダーを元に戻す
 
 ＜日付の書き方＞
   今日、明日、明後日、来週、3日後
@@ -1281,8 +4024,31 @@ async function showHelp(): Promise<any[]> {
   9時、15時30分、15:30
 
 ＜繰り返し＞
-  毎日、毎週、毎月
+  毎日、毎週、毎月、毎年
+  毎週月水金、平日、3日おき
+  毎月第2火曜、毎月末、毎月25日
   → 用件に含めると繰り返しリマインダーに
+  「5回まで」「12月まで」で終わりも決められるよ
+  見逃した回はまとめて1回お知らせ
+  （「見逃し 全部」なら1回ずつお知らせ）
+
+＜優先度＞
+  重要、! → 完了するまで${HIGH_PRIORITY_RENOTIFY_MINUTES}分ごとにお知らせ
+  低 → ${LOW_PRIORITY_DIGEST_HOURS.map((hour) => `${hour}時`).join(
+    "・"
+  )}にまとめてお知らせ
+  例：おしえてくん 明日 9時 重要 書類を提出
+
+＜催促（しつこく）＞
+  しつこく → 完了するまで${DEFAULT_NAG_INTERVAL_MINUTES}分おきにお知らせ
+  しつこく 10分おき 3回まで → 間隔と回数も指定
+  例：おしえてくん 今日 21時 薬を飲む しつこく
+  おしえてくん しつこく … トーク全体の設定
+
+＜事前通知＞
+  1日前と1時間前にも、前日にも
+  → その時間にも前もってお知らせ
+  例：おしえてくん 来週 14時 歯医者 1日前と1時間前にも
 
 ━━━━━━━━━━━━━━
 
@@ -1299,6 +4065,13 @@ async function showHelp(): Promise<any[]> {
     
   ・一覧表示後はボタンで簡単操作！
 
+  ・リスト名やリマインダー名は途中まででもOK
+    打ち間違えたときは「もしかして？」で
+    近い名前を教えるよ！
+
+  ・スペースを含む名前は「」で囲んでね
+    例：おぼえるくん 「週末 キャンプ」 追加
+
 ━━━━━━━━━━━━━━
 
 困ったときはいつでも
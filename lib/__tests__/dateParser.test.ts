@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  alignToRepeatPattern,
+  describeRepeatPattern,
+  getNextOccurrence,
+  parseRepeat,
+} from "@/lib/dateParser";
+
+// 日本時間の日時を Date にする
+const jst = (text: string) => new Date(`${text}:00+09:00`);
+
+describe("parseRepeat", () => {
+  const now = jst("2026-10-19T12:00");
+
+  it.each([
+    ["ゴミ出し 毎日", "daily", "ゴミ出し"],
+    ["ゴミ出し 毎週", "weekly", "ゴミ出し"],
+    ["家賃 毎月", "monthly", "家賃"],
+    ["ゴミ出し 毎週月水金", "FREQ=WEEKLY;BYDAY=MO,WE,FR", "ゴミ出し"],
+    ["燃えないゴミ 毎月第2火曜", "FREQ=MONTHLY;BYDAY=2TU", "燃えないゴミ"],
+    ["支払い 毎月末", "FREQ=MONTHLY;BYMONTHDAY=-1", "支払い"],
+    ["薬を飲む 3日おき 5回まで", "FREQ=DAILY;INTERVAL=3;COUNT=5", "薬を飲む"],
+    [
+      "燃えないゴミ 毎月第2火曜 12月まで",
+      "FREQ=MONTHLY;BYDAY=2TU;UNTIL=20261231",
+      "燃えないゴミ",
+    ],
+    ["朝礼 平日", "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", "朝礼"],
+    ["平日 朝礼", "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", "朝礼"],
+  ])("%j → %j", (input, pattern, text) => {
+    expect(parseRepeat(input, now)).toEqual({ pattern, text });
+  });
+
+  it.each(["平日の会議資料を作る", "会議の準備"])(
+    "%j は繰り返しではない",
+    (input) => {
+      expect(parseRepeat(input, now)).toEqual({ pattern: null, text: input });
+    }
+  );
+
+  it("「毎週水やり」の「水」は曜日とみなさない", () => {
+    expect(parseRepeat("毎週水やりをする", now)).toEqual({
+      pattern: "weekly",
+      text: "水やりをする",
+    });
+  });
+
+  it("過ぎた月の「まで」は来年", () => {
+    expect(parseRepeat("散歩 毎日 3月まで", now).pattern).toBe(
+      "FREQ=DAILY;UNTIL=20270331"
+    );
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("毎日は次の日", () => {
+    expect(getNextOccurrence("daily", jst("2026-10-19T09:00"))).toEqual({
+      next: { remindAt: jst("2026-10-20T09:00"), repeatPattern: "daily" },
+      missed: [],
+    });
+  });
+
+  it("毎週月水金は次の曜日", () => {
+    const next = getNextOccurrence(
+      "FREQ=WEEKLY;BYDAY=MO,WE,FR",
+      jst("2026-10-23T07:00") // 金曜
+    ).next;
+    expect(next?.remindAt).toEqual(jst("2026-10-26T07:00")); // 月曜
+  });
+
+  it("毎月を31日に始めたら月末に合わせ、次の月はまた31日に戻る", () => {
+    const feb = getNextOccurrence("monthly", jst("2026-01-31T09:00")).next!;
+    expect(feb.remindAt).toEqual(jst("2026-02-28T09:00"));
+    const mar = getNextOccurrence(feb.repeatPattern, feb.remindAt).next!;
+    expect(mar.remindAt).toEqual(jst("2026-03-31T09:00"));
+  });
+
+  it("毎月末はその月の最終日", () => {
+    const next = getNextOccurrence(
+      "FREQ=MONTHLY;BYMONTHDAY=-1",
+      jst("2026-01-31T09:00")
+    ).next;
+    expect(next?.remindAt).toEqual(jst("2026-02-28T09:00"));
+  });
+
+  it("毎月第2火曜", () => {
+    const next = getNextOccurrence(
+      "FREQ=MONTHLY;BYDAY=2TU",
+      jst("2026-10-13T08:00")
+    ).next;
+    expect(next?.remindAt).toEqual(jst("2026-11-10T08:00"));
+  });
+
+  it("回数を数え、最後の回のあとは終わる", () => {
+    const next = getNextOccurrence(
+      "FREQ=DAILY;COUNT=2",
+      jst("2026-10-19T09:00")
+    ).next!;
+    expect(next).toEqual({
+      remindAt: jst("2026-10-20T09:00"),
+      repeatPattern: "FREQ=DAILY;COUNT=1",
+    });
+    expect(getNextOccurrence(next.repeatPattern, next.remindAt).next).toBe(
+      null
+    );
+  });
+
+  it("期限を過ぎたら終わる", () => {
+    expect(
+      getNextOccurrence("FREQ=DAILY;UNTIL=20261019", jst("2026-10-19T09:00"))
+        .next
+    ).toBe(null);
+  });
+
+  it("止まっていた間の回は missed に入れて飛ばす", () => {
+    expect(
+      getNextOccurrence(
+        "daily",
+        jst("2026-10-16T09:00"),
+        jst("2026-10-19T12:00")
+      )
+    ).toEqual({
+      next: { remindAt: jst("2026-10-20T09:00"), repeatPattern: "daily" },
+      missed: [
+        jst("2026-10-17T09:00"),
+        jst("2026-10-18T09:00"),
+        jst("2026-10-19T09:00"),
+      ],
+    });
+  });
+
+  it("繰り返しがなければ次はない", () => {
+    expect(getNextOccurrence(null, jst("2026-10-19T09:00"))).toEqual({
+      next: null,
+      missed: [],
+    });
+  });
+});
+
+describe("alignToRepeatPattern", () => {
+  it("最初の回をルールの曜日に合わせる", () => {
+    expect(
+      alignToRepeatPattern(
+        "FREQ=WEEKLY;BYDAY=MO,WE,FR",
+        jst("2026-10-20T07:00") // 火曜
+      )
+    ).toEqual(jst("2026-10-21T07:00"));
+  });
+
+  it("合っていればそのまま", () => {
+    const date = jst("2026-10-19T07:00");
+    expect(alignToRepeatPattern("daily", date)).toEqual(date);
+    expect(alignToRepeatPattern(null, date)).toEqual(date);
+  });
+});
+
+describe("describeRepeatPattern", () => {
+  it.each([
+    ["daily", "毎日"],
+    ["FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", "平日"],
+    [null, null],
+  ])("%j → %j", (pattern, expected) => {
+    expect(describeRepeatPattern(pattern)).toBe(expected);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { parseImportedLines } from "@/lib/importParser";
+
+describe("parseImportedLines", () => {
+  it("行頭の記号と番号を取り除き、見出しを読み飛ばす", () => {
+    expect(
+      parseImportedLines("【材料】\n・卵 2個\n1. 牛乳 200ml\n- [ ] バター")
+    ).toEqual(["卵 2個", "牛乳 200ml", "バター"]);
+  });
+
+  it.each([
+    "【材料】",
+    "＜材料＞",
+    "# 買うもの",
+    "■材料（2人分）",
+    "★",
+    "◆調味料：",
+    "----",
+    "材料（2人分）",
+    "用意するもの",
+  ])("%j は見出し", (line) => {
+    expect(parseImportedLines(line)).toEqual([]);
+  });
+
+  it.each([
+    ["★卵", "卵"],
+    ["☆牛乳 2本", "牛乳 2本"],
+    ["■ 玉ねぎ 1個", "玉ねぎ 1個"],
+    ["① 砂糖 大さじ1", "砂糖 大さじ1"],
+    ["(2) しょうゆ", "しょうゆ"],
+    ["3、みりん", "みりん"],
+  ])("%j は記号を取り除いたアイテム", (line, expected) => {
+    expect(parseImportedLines(line)).toEqual([expected]);
+  });
+
+  it("「1.5L」のような数字の続きは番号とみなさない", () => {
+    expect(parseImportedLines("1.5L 水")).toEqual(["1.5L 水"]);
+  });
+
+  it("「野菜:」のような売り場の見出しは残す", () => {
+    expect(parseImportedLines("野菜:\n・にんじん")).toEqual([
+      "野菜:",
+      "にんじん",
+    ]);
+  });
+
+  it("空行は除く", () => {
+    expect(parseImportedLines("\n卵\n\n  \n牛乳\n")).toEqual(["卵", "牛乳"]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { formatItem, parseItemText } from "@/lib/itemParser";
+
+describe("parseItemText", () => {
+  it.each([
+    ["卵 2パック", { name: "卵", quantity: 2, unit: "パック" }],
+    ["牛乳 1L", { name: "牛乳", quantity: 1, unit: "L" }],
+    ["ひき肉 300g", { name: "ひき肉", quantity: 300, unit: "g" }],
+    ["りんご×3", { name: "りんご", quantity: 3, unit: null }],
+    ["りんご x3", { name: "りんご", quantity: 3, unit: null }],
+    ["りんご X 3", { name: "りんご", quantity: 3, unit: null }],
+    ["牛乳*2", { name: "牛乳", quantity: 2, unit: null }],
+    ["卵 ２パック", { name: "卵", quantity: 2, unit: "パック" }],
+    ["お米 1.5kg", { name: "お米", quantity: 1.5, unit: "kg" }],
+    ["ネギ 2本", { name: "ネギ", quantity: 2, unit: "本" }],
+  ])("%j の数量と単位を読む", (input, expected) => {
+    expect(parseItemText(input)).toMatchObject(expected);
+  });
+
+  it.each([
+    ["Box 2", "Box", 2],
+    ["Xbox 1", "Xbox", 1],
+    ["MAX 2", "MAX", 2],
+  ])("%j の x を区切りとみなさない", (input, name, quantity) => {
+    expect(parseItemText(input)).toMatchObject({ name, quantity });
+  });
+
+  it.each(["iPhone15", "MAX2", "Xbox"])(
+    "%j は区切りも単位もないので名前の一部",
+    (input) => {
+      expect(parseItemText(input)).toMatchObject({
+        name: input,
+        quantity: null,
+        unit: null,
+      });
+    }
+  );
+
+  it("カッコ書きはメモになる", () => {
+    expect(parseItemText("牛乳 1L（低脂肪）")).toEqual({
+      section: null,
+      name: "牛乳",
+      quantity: 1,
+      unit: "L",
+      note: "低脂肪",
+    });
+  });
+
+  it("先頭の「売り場:」を読む", () => {
+    expect(parseItemText("野菜: にんじん 2本")).toMatchObject({
+      section: "野菜",
+      name: "にんじん",
+      quantity: 2,
+      unit: "本",
+    });
+  });
+
+  it("「売り場:」だけの行は名前が空になる", () => {
+    expect(parseItemText("野菜：")).toMatchObject({
+      section: "野菜",
+      name: "",
+    });
+  });
+
+  it("時刻のような数字は売り場とみなさない", () => {
+    expect(parseItemText("10:00 受け取り")).toMatchObject({ section: null });
+  });
+});
+
+describe("formatItem", () => {
+  it.each([
+    [{ item_text: "卵", quantity: 2, unit: "パック" }, "卵 2パック"],
+    [{ item_text: "りんご", quantity: 3, unit: null }, "りんご ×3"],
+    [
+      { item_text: "牛乳", quantity: 1, unit: "L", note: "低脂肪" },
+      "牛乳 1L（低脂肪）",
+    ],
+    [{ item_text: "パン" }, "パン"],
+  ])("%j → %j", (item, expected) => {
+    expect(formatItem(item)).toBe(expected);
+  });
+});
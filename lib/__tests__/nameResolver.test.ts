@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  editDistance,
+  isConfidentMatch,
+  resolveName,
+} from "@/lib/nameResolver";
+
+const names = ["買い物リスト", "キャンプ道具", "週末 キャンプ", "薬"];
+const resolve = (query: string) => resolveName(names, query, (name) => name);
+
+describe("editDistance", () => {
+  it.each([
+    ["", "", 0],
+    ["abc", "abc", 0],
+    ["abc", "abd", 1],
+    ["買物リスト", "買い物リスト", 1],
+    ["", "abc", 3],
+  ])("%j と %j の距離は %i", (a, b, expected) => {
+    expect(editDistance(a, b)).toBe(expected);
+  });
+});
+
+describe("resolveName", () => {
+  it.each([
+    ["買い物リスト", "買い物リスト", "exact"],
+    ["かいものりすと", null, null],
+    ["きゃんぷ道具", "キャンプ道具", "normalized"],
+    ["週末キャンプ", "週末 キャンプ", "normalized"],
+    ["買い物", "買い物リスト", "prefix"],
+    ["買物リスト", "買い物リスト", "similar"],
+  ])("%j → %j（%s）", (query, expected, match) => {
+    const resolution = resolve(query);
+    if (expected === null) {
+      expect(resolution.status).toBe("not_found");
+      return;
+    }
+    expect(resolution).toEqual({ status: "found", value: expected, match });
+  });
+
+  it("1文字だけの前方一致は採用しない", () => {
+    expect(resolve("買")).toMatchObject({ status: "not_found" });
+  });
+
+  it("前方一致が複数あるときは候補を返す", () => {
+    const resolution = resolveName(
+      ["買い物リスト", "買い物メモ"],
+      "買い物",
+      (name) => name
+    );
+    expect(resolution.status).toBe("not_found");
+    if (resolution.status === "not_found") {
+      expect([...resolution.suggestions].sort()).toEqual(
+        ["買い物リスト", "買い物メモ"].sort()
+      );
+    }
+  });
+
+  it("近い名前がなければ候補も空", () => {
+    expect(resolve("まったく違う名前")).toEqual({
+      status: "not_found",
+      suggestions: [],
+    });
+  });
+});
+
+describe("isConfidentMatch", () => {
+  it.each([
+    ["exact", true],
+    ["normalized", true],
+    ["prefix", false],
+    ["similar", false],
+  ] as const)("%s → %s", (match, expected) => {
+    expect(isConfidentMatch(match)).toBe(expected);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parseNumbers } from "@/lib/numberParser";
+
+describe("parseNumbers", () => {
+  it.each([
+    ["1 3", [1, 3]],
+    ["1, 3", [1, 3]],
+    ["1. 3.", [1, 3]],
+    ["1\n3", [1, 3]],
+    ["1,3,5", [1, 3, 5]],
+    ["1. 2. 3.", [1, 2, 3]],
+    [" 1  ,  3  ", [1, 3]],
+    ["1、3", [1, 3]],
+    ["1，3", [1, 3]],
+    ["1．3", [1, 3]],
+  ])("%j → %j", (input, expected) => {
+    expect(parseNumbers(input)).toEqual(expected);
+  });
+
+  it("重複を除いて小さい順に並べる", () => {
+    expect(parseNumbers("3 1 2 3 1")).toEqual([1, 2, 3]);
+  });
+
+  it("0 や数字のないものは無視する", () => {
+    expect(parseNumbers("0 abc 2")).toEqual([2]);
+    expect(parseNumbers("")).toEqual([]);
+  });
+});
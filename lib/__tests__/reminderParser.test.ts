@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseAdvanceNotices,
+  parseMissedPolicy,
+  parseNagPolicy,
+  parsePriority,
+  parseReminderChanges,
+} from "@/lib/reminderParser";
+
+describe("parsePriority", () => {
+  it.each([
+    ["重要 書類を提出", "high", "書類を提出"],
+    ["!提出", "high", "提出"],
+    ["【至急】電話", "high", "電話"],
+    ["低 本を返す", "low", "本を返す"],
+    ["会議 優先度 中", "medium", "会議"],
+    ["書類 優先度：高", "high", "書類"],
+  ])("%j → %s", (input, priority, text) => {
+    expect(parsePriority(input)).toEqual({ priority, text });
+  });
+
+  it.each(["重要書類を探す", "低脂肪乳を買う", "会議"])(
+    "%j には優先度の目印がない",
+    (input) => {
+      expect(parsePriority(input)).toEqual({ priority: null, text: input });
+    }
+  );
+});
+
+describe("parseAdvanceNotices", () => {
+  it.each([
+    ["歯医者 1日前と1時間前にも", [1440, 60], "歯医者"],
+    ["前日にもお知らせ 会議", [1440], "会議"],
+    ["会議 30分前に通知", [30], "会議"],
+    ["旅行 1週間前にも", [10080], "旅行"],
+    ["発表 １時間前・10分前にも", [60, 10], "発表"],
+  ])("%j → %j", (input, advanceNotices, text) => {
+    expect(parseAdvanceNotices(input)).toEqual({ advanceNotices, text });
+  });
+
+  it.each([
+    "前日も残業",
+    "1週間前もらった本を返す",
+    "前日にも残業がある",
+    "3日前に買った牛乳",
+  ])("%j は事前通知ではない", (input) => {
+    expect(parseAdvanceNotices(input)).toEqual({
+      advanceNotices: null,
+      text: input,
+    });
+  });
+});
+
+describe("parseNagPolicy", () => {
+  it.each([
+    ["薬を飲む しつこく", { intervalMinutes: 30, maxCount: 5 }, "薬を飲む"],
+    ["しつこく 10分おき 3回まで", { intervalMinutes: 10, maxCount: 3 }, ""],
+    ["提出 催促 1時間ごと", { intervalMinutes: 60, maxCount: 5 }, "提出"],
+    ["しつこく なし", { intervalMinutes: 0, maxCount: 0 }, ""],
+    ["催促なし 会議", { intervalMinutes: 0, maxCount: 0 }, "会議"],
+  ])("%j → %j", (input, nag, text) => {
+    expect(parseNagPolicy(input)).toEqual({ nag, text });
+  });
+
+  it.each([
+    "取引先に催促メールを送る",
+    "家賃の催促をする",
+    "しつこくない営業に電話",
+  ])("%j は催促の設定ではない", (input) => {
+    expect(parseNagPolicy(input)).toEqual({ nag: null, text: input });
+  });
+});
+
+describe("parseMissedPolicy", () => {
+  it.each([
+    ["毎日 薬を飲む 見逃し 全部", "catch_up", "毎日 薬を飲む"],
+    ["見逃しはまとめて 散歩", "summary", "散歩"],
+    ["ゴミ出し", null, "ゴミ出し"],
+  ])("%j → %s", (input, missedPolicy, text) => {
+    expect(parseMissedPolicy(input)).toEqual({ missedPolicy, text });
+  });
+});
+
+describe("parseReminderChanges", () => {
+  it("繰り返し・優先度・用件を読み取る", () => {
+    expect(parseReminderChanges("毎週 優先度 高 歯医者に行く")).toEqual({
+      success: true,
+      changes: {
+        repeatPattern: "weekly",
+        priority: "high",
+        message: "歯医者に行く",
+      },
+    });
+  });
+
+  it("「しつこく 5回まで」の回数を繰り返しの回数と取り違えない", () => {
+    expect(parseReminderChanges("毎日 しつこく 5回まで")).toEqual({
+      success: true,
+      changes: {
+        repeatPattern: "daily",
+        nag: { intervalMinutes: 30, maxCount: 5 },
+      },
+    });
+  });
+
+  it("「なし」で繰り返し・事前通知をやめる", () => {
+    expect(parseReminderChanges("繰り返しなし 事前通知なし")).toEqual({
+      success: true,
+      changes: { repeatPattern: null, advanceNotices: [] },
+    });
+  });
+
+  it("何も指定がなければエラー", () => {
+    expect(parseReminderChanges("  ")).toMatchObject({ success: false });
+  });
+});
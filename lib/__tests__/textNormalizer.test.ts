@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { isSameText, normalizeText } from "@/lib/textNormalizer";
+
+describe("normalizeText", () => {
+  it.each([
+    ["たまご", "たまご"],
+    ["タマゴ", "たまご"],
+    ["ﾀﾏｺﾞ", "たまご"],
+    ["卵", "たまご"],
+    ["玉子", "たまご"],
+    ["ＡＢＣ１２３", "abc123"],
+    ["買い物 リスト", "買い物りすと"],
+    ["玉葱", "たまねぎ"],
+    ["お米", "おこめ"],
+  ])("%j → %j", (input, expected) => {
+    expect(normalizeText(input)).toBe(expected);
+  });
+
+  it.each([
+    ["卵焼き", "たまご焼き"],
+    ["卵 10個", "たまご10個"],
+    ["鶏肉のもも", "とりにくのもも"],
+  ])("語の一部の漢字表記も置き換える: %j → %j", (input, expected) => {
+    expect(normalizeText(input)).toBe(expected);
+  });
+
+  it("部分一致の検索で「卵」が「卵焼き」に当たる", () => {
+    expect(normalizeText("卵焼き").includes(normalizeText("卵"))).toBe(true);
+    expect(normalizeText("タマゴ 10個").includes(normalizeText("卵"))).toBe(
+      true
+    );
+  });
+});
+
+describe("isSameText", () => {
+  it.each([
+    ["卵", "たまご"],
+    ["ぎゅうにゅう", "牛乳"],
+    ["ネギ", "ねぎ"],
+  ])("%j と %j は同じ", (a, b) => {
+    expect(isSameText(a, b)).toBe(true);
+  });
+
+  it("違うものは違う", () => {
+    expect(isSameText("卵", "卵焼き")).toBe(false);
+  });
+});
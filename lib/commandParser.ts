@@ -0,0 +1,92 @@
+// lib/commandParser.ts
+
+// 開きカッコ → 閉じカッコ
+const QUOTE_PAIRS: Record<string, string> = {
+  "「": "」",
+  "『": "』",
+  '"': '"',
+  "“": "”",
+};
+
+interface CommandToken {
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * コマンド文字列をトークンに分割（カッコ内のスペースは区切りとみなさない）
+ */
+function scanTokens(message: string): CommandToken[] {
+  const tokens: CommandToken[] = [];
+  const chars = Array.from(message);
+
+  let current = "";
+  let start = -1;
+  let position = 0;
+  let closingQuote: string | null = null;
+
+  const flush = () => {
+    if (start !== -1) {
+      tokens.push({ value: current, start, end: position });
+    }
+    current = "";
+    start = -1;
+  };
+
+  for (const char of chars) {
+    if (closingQuote) {
+      // カッコの中はそのまま（閉じカッコが来るまで）
+      if (char === closingQuote) {
+        closingQuote = null;
+      } else {
+        current += char;
+      }
+    } else if (/\s/.test(char)) {
+      flush();
+    } else {
+      if (start === -1) {
+        start = position;
+      }
+      if (char in QUOTE_PAIRS) {
+        closingQuote = QUOTE_PAIRS[char];
+      } else {
+        current += char;
+      }
+    }
+    position += char.length;
+  }
+
+  // 閉じカッコがない場合は最後までをひとまとまりとして扱う
+  flush();
+
+  return tokens.filter((token) => token.value !== "");
+}
+
+/**
+ * ユーザー入力をコマンドの引数に分割
+ * 対応形式: おぼえるくん 「週末 キャンプ」 追加 / おぼえるくん "週末 キャンプ" 追加 など
+ */
+export function tokenizeCommand(message: string): string[] {
+  return scanTokens(message.trim()).map((token) => token.value);
+}
+
+/**
+ * 先頭から count 個のトークンを除いた残りを元の文字列のまま返す
+ * （リマインダーの用件のように、カッコも含めて残したい部分に使う）
+ */
+export function restOfCommand(message: string, count: number): string {
+  const trimmed = message.trim();
+  const tokens = scanTokens(trimmed);
+  if (tokens.length <= count) {
+    return "";
+  }
+  return trimmed.substring(tokens[count].start).trim();
+}
+
+/**
+ * スペースを含む名前をコマンドとして送り直せるようにカッコで囲む
+ */
+export function quoteArg(value: string): string {
+  return /\s/.test(value) ? `「${value}」` : value;
+}
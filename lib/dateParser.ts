@@ -180,17 +180,533 @@ export function parseDateTime(
   }
 }
 
+// 「1時間後」「30分後」のように時刻まで決まる表現
+const RELATIVE_TIME_PATTERN = /^\d+(?:時間(?:\d+分|半)?|分)後$/;
+
+// parseDateTime の日付として読める表現
+const DATE_PATTERNS = [
+  /^(?:今日|きょう|明日|あした|明後日|あさって|来週|らいしゅう|再来週|さらいしゅう)$/,
+  /^\d+日後$/,
+  /^\d+日$/,
+  /^\d+月\d+日$/,
+  /^\d{4}年\d+月\d+日$/,
+];
+
+// parseDateTime の時刻として読める表現
+const TIME_PATTERNS = [
+  /^(?:朝|あさ|昼|ひる|お昼|おひる|午後|ごご|夕方|ゆうがた|夜|よる|深夜|しんや)$/,
+  /^\d+時(?:\d+分)?$/,
+  /^\d+:\d+$/,
+];
+
+export function isRelativeTime(text: string): boolean {
+  return RELATIVE_TIME_PATTERN.test(text);
+}
+
+export function isDateExpression(text: string): boolean {
+  return isRelativeTime(text) || DATE_PATTERNS.some((p) => p.test(text));
+}
+
+export function isTimeExpression(text: string): boolean {
+  return TIME_PATTERNS.some((p) => p.test(text));
+}
+
+// ========================================
+// 繰り返しのルール
+// ========================================
+
+/**
+ * 繰り返しのルール（repeat_pattern には RRULE 風の文字列で保存する）
+ * 例: "FREQ=WEEKLY;BYDAY=MO,WE,FR" "FREQ=MONTHLY;BYDAY=2TU" "FREQ=DAILY;INTERVAL=3;COUNT=5"
+ * 条件のない毎日・毎週・毎月は、以前からのデータと同じ "daily" / "weekly" / "monthly" のまま
+ */
+export interface RepeatRule {
+  freq: "daily" | "weekly" | "monthly" | "yearly";
+  interval: number;
+  byDay?: number[]; // 毎週の曜日（0 = 日曜）
+  monthDay?: number; // 毎月の日にち（-1 は月末）
+  nthWeekday?: { n: number; weekday: number }; // 毎月第n◯曜（n = -1 は最終）
+  count?: number; // 残りの回数（次に届く分を含む）
+  until?: string; // この日まで（日本時間の YYYYMMDD）
+}
+
+// 次の回の日時と、回数を数え直したあとの repeat_pattern
+export interface NextOccurrence {
+  remindAt: Date;
+  repeatPattern: string;
+}
+
+// 次の回と、止まっていた間に過ぎてしまった回
+export interface RepeatSchedule {
+  next: NextOccurrence | null; // null は繰り返しが終わった
+  missed: Date[];
+}
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const WEEKDAY_CHARS = "日月火水木金土";
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAYS_MON_TO_FRI = [1, 2, 3, 4, 5];
+const LEGACY_PATTERNS: Record<string, RepeatRule["freq"]> = {
+  daily: "daily",
+  weekly: "weekly",
+  monthly: "monthly",
+};
+
+function toNumber(text: string): number {
+  return parseInt(text.normalize("NFKC"));
+}
+
+function toWeekdays(text: string): number[] {
+  return Array.from(text)
+    .map((char) => WEEKDAY_CHARS.indexOf(char))
+    .filter((day, index, days) => day >= 0 && days.indexOf(day) === index)
+    .sort((a, b) => a - b);
+}
+
+// 書き方 → ルール（上から順に探して、最初に見つかったものを使う）
+const REPEAT_EXPRESSIONS: [RegExp, (m: RegExpMatchArray) => RepeatRule][] = [
+  [
+    /毎月第([1-5１-５])([日月火水木金土])曜日?/,
+    (m) => ({
+      freq: "monthly",
+      interval: 1,
+      nthWeekday: { n: toNumber(m[1]), weekday: WEEKDAY_CHARS.indexOf(m[2]) },
+    }),
+  ],
+  [
+    /毎月最終([日月火水木金土])曜日?/,
+    (m) => ({
+      freq: "monthly",
+      interval: 1,
+      nthWeekday: { n: -1, weekday: WEEKDAY_CHARS.indexOf(m[1]) },
+    }),
+  ],
+  [/毎月末/, () => ({ freq: "monthly", interval: 1, monthDay: -1 })],
+  [
+    /毎月([0-9０-９]{1,2})日/,
+    (m) => ({ freq: "monthly", interval: 1, monthDay: toNumber(m[1]) }),
+  ],
+  [
+    /([0-9０-９]+)[かヶケカ]月(?:おき|ごと)/,
+    (m) => ({ freq: "monthly", interval: toNumber(m[1]) }),
+  ],
+  [/毎月|まいつき/, () => ({ freq: "monthly", interval: 1 })],
+  [/毎年|まいとし/, () => ({ freq: "yearly", interval: 1 })],
+  [
+    // 「平日の会議資料を作る」のような用件と取り違えないように、前後が区切りのときだけ
+    /(?:^|\s)毎?平日(?:は|に)?(?=\s|$)/,
+    () => ({ freq: "weekly", interval: 1, byDay: WEEKDAYS_MON_TO_FRI }),
+  ],
+  [
+    // 「毎週水やり」の「水」を曜日と取り違えないように、曜日の後ろは区切りか「曜」に限る
+    /毎週([日月火水木金土](?:[・、,]?[日月火水木金土])*)(?:曜日?)?(?=\s|$|[、。,・]|曜)/,
+    (m) => ({ freq: "weekly", interval: 1, byDay: toWeekdays(m[1]) }),
+  ],
+  [
+    /([0-9０-９]+)週間?(?:おき|ごと)/,
+    (m) => ({ freq: "weekly", interval: toNumber(m[1]) }),
+  ],
+  [/隔週/, () => ({ freq: "weekly", interval: 2 })],
+  [/毎週|まいしゅう/, () => ({ freq: "weekly", interval: 1 })],
+  [
+    /([0-9０-９]+)日(?:おき|ごと)/,
+    (m) => ({ freq: "daily", interval: toNumber(m[1]) }),
+  ],
+  [/隔日/, () => ({ freq: "daily", interval: 2 })],
+  [/毎日|まいにち/, () => ({ freq: "daily", interval: 1 })],
+];
+
+const COUNT_EXPRESSION = /([0-9０-９]+)回(?:まで|だけ)/;
+const UNTIL_EXPRESSION =
+  /(?:([0-9０-９]{4})年)?([0-9０-９]{1,2})月(?:([0-9０-９]{1,2})日)?まで/;
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// 日本時間の日付（YYYYMMDD）
+function jstDateKey(date: Date): string {
+  const jst = new Date(date.getTime() + JST_OFFSET_MS);
+  return `${jst.getUTCFullYear()}${pad(jst.getUTCMonth() + 1)}${pad(
+    jst.getUTCDate()
+  )}`;
+}
+
+// 「12月まで」→ 今年（過ぎていれば来年）の12月31日
+function parseUntil(match: RegExpMatchArray, now: Date): string {
+  const jstNow = new Date(now.getTime() + JST_OFFSET_MS);
+  const month = toNumber(match[2]);
+  let year = match[1] ? toNumber(match[1]) : jstNow.getUTCFullYear();
+  if (!match[1] && month < jstNow.getUTCMonth() + 1) {
+    year++;
+  }
+  const day = match[3] ? toNumber(match[3]) : daysInMonth(year, month - 1);
+  return `${year}${pad(month)}${pad(day)}`;
+}
+
+/**
+ * 用件から繰り返しの書き方を取り出す（取り出した部分は用件から取り除く）
+ * 例: "ゴミ出し 毎週月水金" → FREQ=WEEKLY;BYDAY=MO,WE,FR
+ *     "燃えないゴミ 毎月第2火曜 12月まで" → FREQ=MONTHLY;BYDAY=2TU;UNTIL=20261231
+ *     "薬を飲む 3日おき 5回まで" → FREQ=DAILY;INTERVAL=3;COUNT=5
+ */
+export function parseRepeat(
+  text: string,
+  now: Date = new Date()
+): { pattern: string | null; text: string } {
+  for (const [expression, toRule] of REPEAT_EXPRESSIONS) {
+    const match = text.match(expression);
+    if (!match) {
+      continue;
+    }
+
+    const rule = toRule(match);
+    let rest = text.replace(match[0], " ");
+
+    const countMatch = rest.match(COUNT_EXPRESSION);
+    if (countMatch) {
+      rule.count = toNumber(countMatch[1]);
+      rest = rest.replace(countMatch[0], " ");
+    }
+    const untilMatch = rest.match(UNTIL_EXPRESSION);
+    if (untilMatch) {
+      rule.until = parseUntil(untilMatch, now);
+      rest = rest.replace(untilMatch[0], " ");
+    }
+
+    return {
+      pattern: formatRepeatRule(rule),
+      text: rest.replace(/\s+/g, " ").trim(),
+    };
+  }
+
+  return { pattern: null, text };
+}
+
 export function parseRepeatPattern(text: string): string | null {
-  if (text.includes("毎日") || text.includes("まいにち")) {
-    return "daily";
-  } else if (text.includes("毎週") || text.includes("まいしゅう")) {
-    return "weekly";
-  } else if (text.includes("毎月") || text.includes("まいつき")) {
-    return "monthly";
+  return parseRepeat(text).pattern;
+}
+
+/**
+ * repeat_pattern の文字列 → ルール（以前の "daily" などもそのまま読める）
+ */
+export function parseRepeatRule(pattern: string | null): RepeatRule | null {
+  if (!pattern) {
+    return null;
+  }
+  if (pattern in LEGACY_PATTERNS) {
+    return { freq: LEGACY_PATTERNS[pattern], interval: 1 };
+  }
+
+  const fields = new Map(
+    pattern.split(";").map((field) => field.split("=") as [string, string])
+  );
+  const freq = (fields.get("FREQ") || "").toLowerCase();
+  if (!["daily", "weekly", "monthly", "yearly"].includes(freq)) {
+    return null;
+  }
+
+  const rule: RepeatRule = {
+    freq: freq as RepeatRule["freq"],
+    interval: Math.max(1, parseInt(fields.get("INTERVAL") || "1") || 1),
+  };
+
+  const byDay = fields.get("BYDAY");
+  const nthMatch = byDay?.match(/^(-?\d)([A-Z]{2})$/);
+  if (nthMatch) {
+    rule.nthWeekday = {
+      n: parseInt(nthMatch[1]),
+      weekday: WEEKDAY_CODES.indexOf(nthMatch[2]),
+    };
+  } else if (byDay) {
+    rule.byDay = byDay
+      .split(",")
+      .map((code) => WEEKDAY_CODES.indexOf(code))
+      .filter((day) => day >= 0);
+  }
+  if (fields.has("BYMONTHDAY")) {
+    rule.monthDay = parseInt(fields.get("BYMONTHDAY")!);
+  }
+  if (fields.has("COUNT")) {
+    rule.count = parseInt(fields.get("COUNT")!);
+  }
+  if (fields.has("UNTIL")) {
+    rule.until = fields.get("UNTIL");
+  }
+
+  return rule;
+}
+
+/**
+ * ルール → repeat_pattern の文字列
+ */
+export function formatRepeatRule(rule: RepeatRule): string {
+  const plain =
+    rule.interval === 1 &&
+    !rule.byDay &&
+    rule.monthDay === undefined &&
+    !rule.nthWeekday &&
+    rule.count === undefined &&
+    !rule.until;
+  if (plain && rule.freq !== "yearly") {
+    return rule.freq;
+  }
+
+  const fields = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval !== 1) {
+    fields.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay) {
+    fields.push(
+      `BYDAY=${rule.byDay.map((day) => WEEKDAY_CODES[day]).join(",")}`
+    );
+  }
+  if (rule.nthWeekday) {
+    fields.push(
+      `BYDAY=${rule.nthWeekday.n}${WEEKDAY_CODES[rule.nthWeekday.weekday]}`
+    );
+  }
+  if (rule.monthDay !== undefined) {
+    fields.push(`BYMONTHDAY=${rule.monthDay}`);
+  }
+  if (rule.count !== undefined) {
+    fields.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    fields.push(`UNTIL=${rule.until}`);
+  }
+  return fields.join(";");
+}
+
+/**
+ * 繰り返しを読みやすい文字にする（例: "毎週月・水・金曜（あと3回）"）
+ */
+export function describeRepeatPattern(pattern: string | null): string | null {
+  const rule = parseRepeatRule(pattern);
+  if (!rule) {
+    return null;
+  }
+
+  let label: string;
+  if (rule.freq === "daily") {
+    label = rule.interval === 1 ? "毎日" : `${rule.interval}日おき`;
+  } else if (rule.freq === "weekly") {
+    if (rule.byDay?.join() === WEEKDAYS_MON_TO_FRI.join()) {
+      label = "平日";
+    } else if (rule.byDay && rule.byDay.length > 0) {
+      label = `毎週${rule.byDay.map((day) => WEEKDAY_CHARS[day]).join("・")}曜`;
+    } else {
+      label = rule.interval === 1 ? "毎週" : `${rule.interval}週間おき`;
+    }
+  } else if (rule.freq === "monthly") {
+    if (rule.nthWeekday) {
+      const weekday = WEEKDAY_CHARS[rule.nthWeekday.weekday];
+      label =
+        rule.nthWeekday.n === -1
+          ? `毎月最終${weekday}曜`
+          : `毎月第${rule.nthWeekday.n}${weekday}曜`;
+    } else if (rule.monthDay !== undefined) {
+      const day = rule.monthDay === -1 ? "末" : `${rule.monthDay}日`;
+      label =
+        rule.interval === 1
+          ? `毎月${day}`
+          : `${rule.interval}か月おき（${day}）`;
+    } else {
+      label = rule.interval === 1 ? "毎月" : `${rule.interval}か月おき`;
+    }
+  } else {
+    label = rule.interval === 1 ? "毎年" : `${rule.interval}年おき`;
+  }
+
+  if (rule.count !== undefined) {
+    label += `（あと${rule.count}回）`;
+  }
+  if (rule.until) {
+    const year = parseInt(rule.until.substring(0, 4));
+    const currentYear = new Date(Date.now() + JST_OFFSET_MS).getUTCFullYear();
+    label += `（${year === currentYear ? "" : `${year}年`}${parseInt(
+      rule.until.substring(4, 6)
+    )}月${parseInt(rule.until.substring(6, 8))}日まで）`;
+  }
+  return label;
+}
+
+// 第n◯曜の日にち（その月にない「第5◯曜」は null）
+function nthWeekdayOfMonth(
+  year: number,
+  month: number,
+  n: number,
+  weekday: number
+): number | null {
+  const lastDay = daysInMonth(year, month);
+  if (n === -1) {
+    const lastWeekday = new Date(Date.UTC(year, month, lastDay)).getUTCDay();
+    return lastDay - ((lastWeekday - weekday + 7) % 7);
+  }
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+  return day <= lastDay ? day : null;
+}
+
+// その月の対象の日にち（毎月のルールで日にちの指定がなければ null）
+function monthlyDay(rule: RepeatRule, year: number, month: number) {
+  if (rule.nthWeekday) {
+    return nthWeekdayOfMonth(
+      year,
+      month,
+      rule.nthWeekday.n,
+      rule.nthWeekday.weekday
+    );
+  }
+  if (rule.monthDay !== undefined) {
+    const lastDay = daysInMonth(year, month);
+    return rule.monthDay === -1 ? lastDay : Math.min(rule.monthDay, lastDay);
   }
   return null;
 }
 
+// jst（日本時間の日時を UTC のフィールドで持ったもの）がルールの日に当たるか
+function matchesRule(rule: RepeatRule, jst: Date): boolean {
+  if (rule.freq === "weekly" && rule.byDay && rule.byDay.length > 0) {
+    return rule.byDay.includes(jst.getUTCDay());
+  }
+  if (rule.freq === "monthly") {
+    const day = monthlyDay(rule, jst.getUTCFullYear(), jst.getUTCMonth());
+    return day === null
+      ? !rule.nthWeekday && rule.monthDay === undefined
+      : jst.getUTCDate() === day;
+  }
+  return true;
+}
+
+// 次の回（時刻はそのまま、日付だけ進める）
+function nextJstDate(rule: RepeatRule, current: Date): Date {
+  const next = new Date(current);
+
+  switch (rule.freq) {
+    case "daily":
+      next.setUTCDate(next.getUTCDate() + rule.interval);
+      return next;
+    case "weekly":
+      if (rule.byDay && rule.byDay.length > 0) {
+        do {
+          next.setUTCDate(next.getUTCDate() + 1);
+        } while (!rule.byDay.includes(next.getUTCDay()));
+        return next;
+      }
+      next.setUTCDate(next.getUTCDate() + 7 * rule.interval);
+      return next;
+    case "monthly": {
+      if (!rule.nthWeekday && rule.monthDay === undefined) {
+        // 1月31日の次は2月28日（3月3日にずれないよう月末で止める）
+        const day = next.getUTCDate();
+        next.setUTCDate(1);
+        next.setUTCMonth(next.getUTCMonth() + rule.interval);
+        next.setUTCDate(
+          Math.min(day, daysInMonth(next.getUTCFullYear(), next.getUTCMonth()))
+        );
+        return next;
+      }
+      // 「第5◯曜」がない月は飛ばす
+      next.setUTCDate(1);
+      for (;;) {
+        next.setUTCMonth(next.getUTCMonth() + rule.interval);
+        const day = monthlyDay(rule, next.getUTCFullYear(), next.getUTCMonth());
+        if (day !== null) {
+          next.setUTCDate(day);
+          return next;
+        }
+      }
+    }
+    case "yearly": {
+      // 2月29日はうるう年以外は2月28日
+      const day = rule.monthDay ?? next.getUTCDate();
+      next.setUTCDate(1);
+      next.setUTCFullYear(next.getUTCFullYear() + rule.interval);
+      next.setUTCDate(
+        Math.min(day, daysInMonth(next.getUTCFullYear(), next.getUTCMonth()))
+      );
+      return next;
+    }
+  }
+}
+
+/**
+ * 月末あたり（29〜31日）の繰り返しは元の日を覚えておく
+ * （「毎月」を31日に始めたら 1/31 → 2/28 → 3/31 と月末に戻れるように）
+ */
+function anchorMonthDay(rule: RepeatRule, jst: Date): RepeatRule {
+  const plainMonthly =
+    rule.freq === "monthly" && !rule.nthWeekday && rule.monthDay === undefined;
+  const plainYearly = rule.freq === "yearly" && rule.monthDay === undefined;
+  if ((plainMonthly || plainYearly) && jst.getUTCDate() > 28) {
+    return { ...rule, monthDay: jst.getUTCDate() };
+  }
+  return rule;
+}
+
+/**
+ * 繰り返しの次の回を計算
+ * cron が止まっていたなどで now までに過ぎてしまった回は飛ばして missed に入れる
+ * （回数や期限を過ぎて終わるときは next が null）
+ */
+export function getNextOccurrence(
+  pattern: string | null,
+  current: Date,
+  now: Date = current
+): RepeatSchedule {
+  const parsed = parseRepeatRule(pattern);
+  if (!parsed) {
+    return { next: null, missed: [] };
+  }
+
+  let jst = new Date(current.getTime() + JST_OFFSET_MS);
+  const rule = anchorMonthDay(parsed, jst);
+  let count = rule.count;
+  const missed: Date[] = [];
+
+  for (;;) {
+    if (count !== undefined && count <= 1) {
+      return { next: null, missed };
+    }
+    jst = nextJstDate(rule, jst);
+    count = count !== undefined ? count - 1 : undefined;
+
+    const remindAt = new Date(jst.getTime() - JST_OFFSET_MS);
+    if (rule.until && jstDateKey(remindAt) > rule.until) {
+      return { next: null, missed };
+    }
+    if (remindAt > now) {
+      return {
+        next: { remindAt, repeatPattern: formatRepeatRule({ ...rule, count }) },
+        missed,
+      };
+    }
+    missed.push(remindAt);
+  }
+}
+
+/**
+ * 最初の回をルールに合わせる（「毎週月水金」を火曜に登録したら水曜から）
+ */
+export function alignToRepeatPattern(pattern: string | null, date: Date): Date {
+  const rule = parseRepeatRule(pattern);
+  if (!rule) {
+    return date;
+  }
+
+  const jst = new Date(date.getTime() + JST_OFFSET_MS);
+  // 1年あれば必ず見つかる（第5◯曜でも）
+  for (let i = 0; i < 400 && !matchesRule(rule, jst); i++) {
+    jst.setUTCDate(jst.getUTCDate() + 1);
+  }
+  return new Date(jst.getTime() - JST_OFFSET_MS);
+}
+
 // 日時を人間が読みやすい形式にフォーマット（JST表示）
 export function formatDateTime(date: Date): string {
   // UTCからJSTに変換
@@ -1,4 +1,8 @@
-import { Pool } from "pg";
+import { Pool, PoolClient } from "pg";
+import crypto from "crypto";
+import { parseItemText } from "@/lib/itemParser";
+import { isSameText, normalizeText } from "@/lib/textNormalizer";
+import type { NextOccurrence } from "@/lib/dateParser";
 
 const pool = new Pool({
   connectionString: process.env.POSTGRES_URL,
@@ -15,6 +19,17 @@ export interface ListItem {
   id: number;
   list_id: number;
   item_text: string;
+  quantity: number | null;
+  unit: string | null;
+  note: string | null;
+  section: string | null;
+  position: number | null;
+  added_by: string | null;
+  assigned_to: string | null;
+  assigned_to_name: string | null;
+  is_checked: boolean;
+  checked_at?: Date | null;
+  deleted_at?: Date | null;
   created_at: Date;
 }
 
@@ -25,9 +40,23 @@ export interface List {
   created_at: Date;
   last_accessed_at?: Date;
   cleanup_warning_at?: Date;
+  is_template: boolean;
+  share_code?: string | null;
+  deleted_at?: Date | null;
+  is_pinned?: boolean; // このルームでピン留めしているか（getLists で取得）
   items?: ListItem[];
 }
 
+// リスト一覧の並び順（作成順 / よく使う順 / 手動）
+export type ListOrder = "created" | "recent" | "manual";
+
+// アイテム追加の結果（既存アイテムに数量を足したものは merged、重複で追加しなかったものは skipped）
+export interface AddItemsResult {
+  added: ListItem[];
+  merged: ListItem[];
+  skipped: string[];
+}
+
 // ========== リマインダー関連の型定義 ==========
 
 export interface Reminder {
@@ -43,69 +72,453 @@ export interface Reminder {
   created_at: Date;
   updated_at: Date;
   cleanup_warning_at?: Date;
+  deleted_at?: Date | null;
+  last_notified_at?: Date | null;
+  missed_policy?: string;
+  advance_notices?: number[]; // 事前通知（何分前に知らせるか）
+  advance_notices_sent?: number[]; // 今の remind_at に対して送った（過ぎた）事前通知
+  nag_interval_minutes?: number | null; // 催促の間隔（null はルームの設定、0 は催促しない）
+  nag_max_count?: number | null; // 催促する最大回数（null はルームの設定）
+  nag_count?: number; // 今のお知らせのあと催促した回数
+  awaiting_ack?: boolean; // お知らせした回がまだ完了・スヌーズされていない
+  notified_occurrence_at?: Date | null; // お知らせした回の日時（繰り返しで remind_at が進んでも残る）
+}
+
+// 完了されるまで催促する設定（intervalMinutes が 0 なら催促しない）
+export interface NagPolicy {
+  intervalMinutes: number;
+  maxCount: number;
+}
+
+// 催促の時刻が来たリマインダー（nagMax は催促する最大回数。null は完了するまで上限なし）
+export interface UnansweredReminder {
+  reminder: Reminder;
+  nagMax: number | null;
+}
+
+// 事前通知の時刻が来たリマインダー（leadMinutes 分前のお知らせ）
+export interface DueAdvanceNotice {
+  reminder: Reminder;
+  leadMinutes: number;
+}
+
+// remind_at を変えたときに事前通知を数え直す（新しい日時でもう過ぎたものは送ったことにする）
+function resetAdvanceNoticesSql(remindAt: string): string {
+  return `advance_notices_sent = ARRAY(SELECT lead FROM unnest(advance_notices) AS lead WHERE ${remindAt} - INTERVAL '1 minute' * lead <= NOW())`;
 }
 
+// 繰り返しの回を見逃したとき（お知らせが止まっていたなど）の扱い
+// summary: 見逃した回はまとめて1回だけ知らせる / catch_up: 見逃した回も1回ずつ知らせる
+export type MissedPolicy = "summary" | "catch_up";
+
+// 優先度「高」で、完了するまで繰り返しお知らせする間隔（分）
+export const HIGH_PRIORITY_RENOTIFY_MINUTES = 60;
+
+// 「しつこく」だけで間隔・回数を言わなかったときの催促の設定
+export const DEFAULT_NAG_INTERVAL_MINUTES = 30;
+export const DEFAULT_NAG_MAX_COUNT = 5;
+
+// 優先度「低」をまとめてお知らせする時刻（日本時間の時）
+export const LOW_PRIORITY_DIGEST_HOURS = [9, 18];
+
 // ========== リスト関連の関数 ==========
 
-// リスト一覧を取得
+// ルームから見えるリスト（自分のルームのリスト＋共有に参加したリスト）
+const ROOM_LISTS_CONDITION =
+  "(user_id = $1 OR id IN (SELECT list_id FROM list_shares WHERE room_id = $1))";
+
+// リスト名からリストを探す（完全一致を優先、なければ表記揺れを無視して一致）
+// テンプレートは通常のリストとは別の名前空間として扱う（共有もしない）
+async function findListByName(
+  client: PoolClient,
+  roomId: string,
+  listName: string,
+  isTemplate: boolean = false
+): Promise<List | null> {
+  const condition = isTemplate
+    ? "user_id = $1 AND is_template = TRUE AND deleted_at IS NULL"
+    : `${ROOM_LISTS_CONDITION} AND is_template = FALSE AND deleted_at IS NULL`;
+
+  const exact = await client.query(
+    `SELECT * FROM lists WHERE ${condition} AND list_name = $2`,
+    [roomId, listName]
+  );
+
+  if (exact.rows.length > 0) {
+    return exact.rows[0];
+  }
+
+  const all = await client.query(
+    `SELECT * FROM lists WHERE ${condition} ORDER BY created_at ASC`,
+    [roomId]
+  );
+  return (
+    all.rows.find((list: List) => isSameText(list.list_name, listName)) ?? null
+  );
+}
+
+// 並び順ごとの ORDER BY（ピン留めしたものはいつも先頭）
+const LIST_ORDER_CLAUSES: Record<ListOrder, string> = {
+  created: "lists.created_at DESC",
+  recent: "COALESCE(lists.last_accessed_at, lists.created_at) DESC",
+  manual: "list_orders.position ASC NULLS LAST, lists.created_at DESC",
+};
+
+async function findListOrder(
+  client: PoolClient,
+  roomId: string
+): Promise<ListOrder> {
+  const result = await client.query(
+    "SELECT list_order FROM room_settings WHERE room_id = $1",
+    [roomId]
+  );
+  const order = result.rows[0]?.list_order;
+  return order in LIST_ORDER_CLAUSES ? order : "created";
+}
+
+async function findRoomLists(
+  client: PoolClient,
+  roomId: string
+): Promise<List[]> {
+  const order = await findListOrder(client, roomId);
+  const result = await client.query(
+    `SELECT lists.*, COALESCE(list_orders.is_pinned, FALSE) AS is_pinned
+     FROM lists
+     LEFT JOIN list_orders ON list_orders.list_id = lists.id AND list_orders.room_id = $1
+     WHERE ${ROOM_LISTS_CONDITION} AND is_template = FALSE AND deleted_at IS NULL
+     ORDER BY COALESCE(list_orders.is_pinned, FALSE) DESC, ${LIST_ORDER_CLAUSES[order]}`,
+    [roomId]
+  );
+  return result.rows;
+}
+
+// リスト一覧を取得（ピン留め → ルームの並び順）
 export async function getLists(userId: string): Promise<List[]> {
   const client = await pool.connect();
   try {
-    const result = await client.query(
-      "SELECT * FROM lists WHERE user_id = $1 ORDER BY created_at DESC",
-      [userId]
+    return await findRoomLists(client, userId);
+  } finally {
+    client.release();
+  }
+}
+
+// リスト一覧の並び順を取得
+export async function getListOrder(roomId: string): Promise<ListOrder> {
+  const client = await pool.connect();
+  try {
+    return await findListOrder(client, roomId);
+  } finally {
+    client.release();
+  }
+}
+
+// リスト一覧の並び順を変更
+export async function setListOrder(
+  roomId: string,
+  order: ListOrder
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `INSERT INTO room_settings (room_id, list_order) VALUES ($1, $2)
+       ON CONFLICT (room_id) DO UPDATE SET list_order = $2, updated_at = CURRENT_TIMESTAMP`,
+      [roomId, order]
     );
-    return result.rows;
   } finally {
     client.release();
   }
 }
 
-// リストを作成（存在しない場合のみ）
+// リストをピン留め・ピン留め解除（見つからなければ null）
+export async function setListPinned(
+  roomId: string,
+  listName: string,
+  pinned: boolean
+): Promise<List | null> {
+  const client = await pool.connect();
+  try {
+    const list = await findListByName(client, roomId, listName);
+
+    if (!list) {
+      return null;
+    }
+
+    await client.query(
+      `INSERT INTO list_orders (room_id, list_id, is_pinned) VALUES ($1, $2, $3)
+       ON CONFLICT (room_id, list_id) DO UPDATE SET is_pinned = $3`,
+      [roomId, list.id, pinned]
+    );
+    return { ...list, is_pinned: pinned };
+  } finally {
+    client.release();
+  }
+}
+
+// リストを一覧の position 番目（1から）に動かして、並び順を手動にする
+// ピン留めしたリストはピン留めの中だけ、それ以外はピン留めの後ろだけで動かせる
+export async function moveListPosition(
+  roomId: string,
+  listName: string,
+  position: number
+): Promise<List | null> {
+  const client = await pool.connect();
+  try {
+    const list = await findListByName(client, roomId, listName);
+
+    if (!list) {
+      return null;
+    }
+
+    const lists = await findRoomLists(client, roomId);
+    const target = lists.find((l) => l.id === list.id)!;
+    const others = lists.filter((l) => l.id !== list.id);
+    const pinnedCount = others.filter((l) => l.is_pinned).length;
+    const index = target.is_pinned
+      ? Math.min(Math.max(position - 1, 0), pinnedCount)
+      : Math.min(Math.max(position - 1, pinnedCount), others.length);
+    others.splice(index, 0, target);
+
+    for (const [i, l] of others.entries()) {
+      await client.query(
+        `INSERT INTO list_orders (room_id, list_id, position) VALUES ($1, $2, $3)
+         ON CONFLICT (room_id, list_id) DO UPDATE SET position = $3`,
+        [roomId, l.id, i + 1]
+      );
+    }
+    await client.query(
+      `INSERT INTO room_settings (room_id, list_order) VALUES ($1, 'manual')
+       ON CONFLICT (room_id) DO UPDATE SET list_order = 'manual', updated_at = CURRENT_TIMESTAMP`,
+      [roomId]
+    );
+
+    return target;
+  } finally {
+    client.release();
+  }
+}
+
+// リストを作成（既に同じ名前のリストがあればそれを返す）
+// created で新規作成かどうかを呼び出し側が判別できるようにする
 export async function createList(
   userId: string,
-  listName: string
-): Promise<List> {
+  listName: string,
+  isTemplate: boolean = false
+): Promise<{ list: List; created: boolean }> {
   const client = await pool.connect();
   try {
-    // 既に存在するかチェック
-    const existing = await client.query(
-      "SELECT * FROM lists WHERE user_id = $1 AND list_name = $2",
-      [userId, listName]
-    );
+    return await findOrCreateList(client, userId, listName, isTemplate);
+  } finally {
+    client.release();
+  }
+}
 
-    if (existing.rows.length > 0) {
-      return existing.rows[0];
+// 同じ名前のリストがあればそれを、なければ作って返す（呼び出し元の接続・トランザクションの中で）
+async function findOrCreateList(
+  client: PoolClient,
+  userId: string,
+  listName: string,
+  isTemplate: boolean = false
+): Promise<{ list: List; created: boolean }> {
+  // 既に存在するかチェック（ゴミ箱のリストは対象外）
+  const existing = await findListByName(client, userId, listName, isTemplate);
+
+  if (existing) {
+    return { list: existing, created: false };
+  }
+
+  const result = await client.query(
+    "INSERT INTO lists (user_id, list_name, is_template) VALUES ($1, $2, $3) RETURNING *",
+    [userId, listName, isTemplate]
+  );
+  return { list: result.rows[0], created: true };
+}
+
+// リスト名の変更結果
+export type RenameListResult = "renamed" | "not_found" | "conflict";
+
+// リスト名を変更（変更先の名前が既にあれば conflict）
+export async function renameList(
+  roomId: string,
+  oldName: string,
+  newName: string
+): Promise<RenameListResult> {
+  const client = await pool.connect();
+  try {
+    const list = await findListByName(client, roomId, oldName);
+
+    if (!list) {
+      return "not_found";
     }
 
-    const result = await client.query(
-      "INSERT INTO lists (user_id, list_name) VALUES ($1, $2) RETURNING *",
-      [userId, listName]
+    // 表記揺れだけを直す（例: カイモノ → 買い物）のは同じリストなのでOK
+    const existing = await findListByName(client, roomId, newName);
+    if (existing && existing.id !== list.id) {
+      return "conflict";
+    }
+
+    await client.query(
+      "UPDATE lists SET list_name = $2, last_accessed_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [list.id, newName]
     );
-    return result.rows[0];
+    return "renamed";
+  } finally {
+    client.release();
+  }
+}
+
+// アイテムを別のリストに移動（移動先がなければ作成する）
+export async function moveItemsToList(
+  roomId: string,
+  fromListName: string,
+  toListName: string,
+  itemIds: number[]
+): Promise<{ moved: number; createdTarget: boolean } | null> {
+  const client = await pool.connect();
+  try {
+    const fromList = await findListByName(client, roomId, fromListName);
+
+    if (!fromList) {
+      return null;
+    }
+
+    // 移動先のリストを作ってからの失敗で空のリストが残らないよう、まとめて1つのトランザクションで行う
+    await client.query("BEGIN");
+    let toList: List;
+    let created: boolean;
+    let moved: number;
+    try {
+      ({ list: toList, created } = await findOrCreateList(
+        client,
+        roomId,
+        toListName
+      ));
+
+      // 移動先では末尾に並べる
+      const result = await client.query(
+        "UPDATE list_items SET list_id = $3, position = (SELECT COALESCE(MAX(position), 0) FROM list_items WHERE list_id = $3) + COALESCE(position, 0) WHERE list_id = $1 AND id = ANY($2::int[])",
+        [fromList.id, itemIds, toList.id]
+      );
+      moved = result.rowCount ?? 0;
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    }
+
+    // 両方のリストの最終アクセス時刻を更新
+    await updateListAccessTime(fromList.id);
+    await updateListAccessTime(toList.id);
+
+    return { moved, createdTarget: created };
   } finally {
     client.release();
   }
 }
 
 // リストにアイテムを追加
+// 表記揺れを無視して同じ名前の未チェックのアイテムがあれば、新しい行は作らない
+// - 数量の指定があれば既存のアイテムの数量に足す（merged）
+// - 数量の指定がなければ重複としてスキップ（skipped）
+// 売り場は「野菜: にんじん」の指定 →「野菜:」の見出し行 → ルームで覚えた売り場の順で決める
 export async function addItemsToList(
   listId: number,
-  items: string[]
-): Promise<ListItem[]> {
+  items: string[],
+  addedBy?: string
+): Promise<AddItemsResult> {
   const client = await pool.connect();
   try {
-    const addedItems: ListItem[] = [];
+    const added: ListItem[] = [];
+    const merged: ListItem[] = [];
+    const skipped: string[] = [];
+
+    const listResult = await client.query("SELECT * FROM lists WHERE id = $1", [
+      listId,
+    ]);
+    const roomId: string = listResult.rows[0].user_id;
+    const learnedSections = await getLearnedSections(client, roomId);
+
+    const existingResult = await client.query(
+      "SELECT * FROM list_items WHERE list_id = $1 AND is_checked = FALSE AND deleted_at IS NULL ORDER BY created_at ASC",
+      [listId]
+    );
+    const existingItems: ListItem[] = existingResult.rows;
+
+    const positionResult = await client.query(
+      "SELECT COALESCE(MAX(position), 0) AS max_position FROM list_items WHERE list_id = $1",
+      [listId]
+    );
+    let nextPosition = Number(positionResult.rows[0].max_position) + 1;
+
+    let headingSection: string | null = null;
+
     for (const item of items) {
+      const parsed = parseItemText(item);
+
+      // 「野菜:」だけの行は以降のアイテムの見出し
+      if (!parsed.name) {
+        headingSection = parsed.section;
+        continue;
+      }
+
+      const explicitSection = parsed.section ?? headingSection;
+      if (explicitSection) {
+        await learnSection(client, roomId, parsed.name, explicitSection);
+        learnedSections.set(normalizeText(parsed.name), explicitSection);
+      }
+      const section =
+        explicitSection ??
+        learnedSections.get(normalizeText(parsed.name)) ??
+        null;
+
+      const duplicates = existingItems.filter((existing) =>
+        isSameText(existing.item_text, parsed.name)
+      );
+
+      // 単位が同じもの（またはどちらかに数量がないもの）なら数量を足せる
+      // 数量の指定がないものは1つとして数える（「卵」+「卵 2」で3）
+      const mergeTarget = duplicates.find(
+        (existing) =>
+          existing.quantity === null ||
+          parsed.quantity === null ||
+          existing.unit === parsed.unit
+      );
+
+      // 単位が違って足せない（「牛乳 1L」に「牛乳 2本」）ものは重複としてスキップ
+      if (duplicates.length > 0 && !mergeTarget) {
+        skipped.push(item.trim());
+        continue;
+      }
+
+      if (mergeTarget) {
+        const result = await client.query(
+          "UPDATE list_items SET quantity = COALESCE(quantity, 1) + COALESCE($2, 1), unit = COALESCE(unit, $3), note = COALESCE($4, note), section = COALESCE($5, section) WHERE id = $1 RETURNING *",
+          [mergeTarget.id, parsed.quantity, parsed.unit, parsed.note, section]
+        );
+        existingItems[existingItems.indexOf(mergeTarget)] = result.rows[0];
+        merged.push(result.rows[0]);
+        continue;
+      }
+
       const result = await client.query(
-        "INSERT INTO list_items (list_id, item_text) VALUES ($1, $2) RETURNING *",
-        [listId, item.trim()]
+        "INSERT INTO list_items (list_id, item_text, quantity, unit, note, section, position, added_by) VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *",
+        [
+          listId,
+          parsed.name,
+          parsed.quantity,
+          parsed.unit,
+          parsed.note,
+          section,
+          nextPosition,
+          addedBy || null,
+        ]
       );
-      addedItems.push(result.rows[0]);
+      nextPosition++;
+      existingItems.push(result.rows[0]);
+      added.push(result.rows[0]);
     }
     // リストの最終アクセス時刻を更新
     await updateListAccessTime(listId);
-    return addedItems;
+    return { added, merged, skipped };
   } finally {
     client.release();
   }
@@ -114,30 +527,34 @@ export async function addItemsToList(
 // リストとその中身を取得
 export async function getListWithItems(
   userId: string,
-  listName: string
+  listName: string,
+  isTemplate: boolean = false
 ): Promise<List | null> {
   const client = await pool.connect();
   try {
-    const listResult = await client.query(
-      "SELECT * FROM lists WHERE user_id = $1 AND list_name = $2",
-      [userId, listName]
-    );
+    const list = await findListByName(client, userId, listName, isTemplate);
 
-    if (listResult.rows.length === 0) {
+    if (!list) {
       return null;
     }
 
-    const list = listResult.rows[0];
     const itemsResult = await client.query(
-      "SELECT * FROM list_items WHERE list_id = $1 ORDER BY created_at ASC",
+      // 未チェック → チェック済み、その中で売り場ごと（売り場の並びは最初のアイテムの位置順）
+      "SELECT * FROM list_items WHERE list_id = $1 AND deleted_at IS NULL ORDER BY is_checked ASC, MIN(position) OVER (PARTITION BY is_checked, COALESCE(section, '')) ASC NULLS FIRST, position ASC NULLS FIRST, created_at ASC",
       [list.id]
     );
 
+    const orderResult = await client.query(
+      "SELECT is_pinned FROM list_orders WHERE room_id = $1 AND list_id = $2",
+      [userId, list.id]
+    );
+
     // 最終アクセス時刻を更新
     await updateListAccessTime(list.id);
 
     return {
       ...list,
+      is_pinned: orderResult.rows[0]?.is_pinned ?? false,
       items: itemsResult.rows,
     };
   } finally {
@@ -145,262 +562,959 @@ export async function getListWithItems(
   }
 }
 
-// リストを削除
+// リストを削除（ゴミ箱に移す。アイテムはリストと一緒に戻せるようにそのまま残す）
 export async function deleteList(
   roomId: string,
   listName: string
 ): Promise<boolean> {
   const client = await pool.connect();
   try {
+    const list = await findListByName(client, roomId, listName);
+
+    if (!list) {
+      return false;
+    }
+
+    // 共有に参加しているだけのルームからは、リスト自体は消さずに共有から抜ける
+    if (list.user_id !== roomId) {
+      const result = await client.query(
+        "DELETE FROM list_shares WHERE list_id = $1 AND room_id = $2",
+        [list.id, roomId]
+      );
+      if ((result.rowCount ?? 0) === 0) {
+        return false;
+      }
+      await recordOperation(client, roomId, "leave_list", {
+        listId: list.id,
+        listName: list.list_name,
+      });
+      return true;
+    }
+
     const result = await client.query(
-      "DELETE FROM lists WHERE user_id = $1 AND list_name = $2",
-      [roomId, listName]
+      "UPDATE lists SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [list.id]
     );
-    return (result.rowCount ?? 0) > 0;
+    if ((result.rowCount ?? 0) === 0) {
+      return false;
+    }
+    await recordOperation(client, roomId, "delete_list", {
+      listId: list.id,
+      listName: list.list_name,
+    });
+    return true;
   } finally {
     client.release();
   }
 }
 
-// 特定のアイテムを削除
-export async function deleteItemFromList(
+// 指定したIDのアイテムを削除（ゴミ箱に移す。リスト内のアイテムに限る）
+export async function deleteItemsFromList(
   roomId: string,
   listName: string,
-  itemText: string
-): Promise<boolean> {
+  itemIds: number[]
+): Promise<number> {
   const client = await pool.connect();
   try {
     // まずリストを取得
-    const listResult = await client.query(
-      "SELECT * FROM lists WHERE user_id = $1 AND list_name = $2",
-      [roomId, listName]
+    const list = await findListByName(client, roomId, listName);
+
+    if (!list) {
+      return 0;
+    }
+
+    const result = await client.query(
+      "UPDATE list_items SET deleted_at = CURRENT_TIMESTAMP WHERE list_id = $1 AND id = ANY($2::int[]) AND deleted_at IS NULL RETURNING id, item_text",
+      [list.id, itemIds]
     );
 
-    if (listResult.rows.length === 0) {
-      return false;
+    if (result.rows.length > 0) {
+      await recordOperation(client, roomId, "delete_items", {
+        listName: list.list_name,
+        itemIds: result.rows.map((row) => row.id),
+        names: result.rows.map((row) => row.item_text),
+      });
     }
 
-    const list = listResult.rows[0];
+    // 最終アクセス時刻を更新
+    await updateListAccessTime(list.id);
+
+    return result.rows.length;
+  } finally {
+    client.release();
+  }
+}
 
-    // アイテムを削除（部分一致で最初の1つだけ）
+// アイテムのチェック状態をまとめて切り替え
+export async function setItemsChecked(
+  listId: number,
+  itemIds: number[],
+  checked: boolean
+): Promise<ListItem[]> {
+  const client = await pool.connect();
+  try {
     const result = await client.query(
-      "DELETE FROM list_items WHERE list_id = $1 AND item_text ILIKE $2 AND id = (SELECT id FROM list_items WHERE list_id = $1 AND item_text ILIKE $2 ORDER BY created_at ASC LIMIT 1)",
-      [list.id, `%${itemText}%`]
+      "UPDATE list_items SET is_checked = $3, checked_at = CASE WHEN $3 THEN CURRENT_TIMESTAMP ELSE NULL END WHERE list_id = $1 AND id = ANY($2::int[]) RETURNING *",
+      [listId, itemIds, checked]
     );
 
     // 最終アクセス時刻を更新
-    await updateListAccessTime(list.id);
+    await updateListAccessTime(listId);
 
-    return (result.rowCount ?? 0) > 0;
+    return result.rows;
   } finally {
     client.release();
   }
 }
 
-// ========== リマインダー関連の関数 ==========
+// アイテムの内容を書き換える（並び順・チェック状態・作成日時はそのまま）
+export async function updateListItem(
+  listId: number,
+  itemId: number,
+  text: string
+): Promise<ListItem | null> {
+  const client = await pool.connect();
+  try {
+    const parsed = parseItemText(text);
+    if (!parsed.name) {
+      return null;
+    }
 
-// リマインダー一覧を取得（未完了のみ）
-export async function getReminders(roomId: string): Promise<Reminder[]> {
+    // 売り場は指定があったときだけ変える
+    const result = await client.query(
+      "UPDATE list_items SET item_text = $3, quantity = $4, unit = $5, note = $6, section = COALESCE($7, section) WHERE list_id = $1 AND id = $2 RETURNING *",
+      [
+        listId,
+        itemId,
+        parsed.name,
+        parsed.quantity,
+        parsed.unit,
+        parsed.note,
+        parsed.section,
+      ]
+    );
+
+    // 最終アクセス時刻を更新
+    await updateListAccessTime(listId);
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  } finally {
+    client.release();
+  }
+}
+
+// アイテムの担当者をまとめて変更（userId がない場合は名前だけの担当者）
+export async function assignItems(
+  listId: number,
+  itemIds: number[],
+  assignee: { userId: string | null; name: string | null } | null
+): Promise<ListItem[]> {
   const client = await pool.connect();
   try {
     const result = await client.query(
-      "SELECT * FROM reminders WHERE room_id = $1 AND status != 'completed' ORDER BY remind_at ASC",
-      [roomId]
+      "UPDATE list_items SET assigned_to = $3, assigned_to_name = $4 WHERE list_id = $1 AND id = ANY($2::int[]) RETURNING *",
+      [listId, itemIds, assignee?.userId ?? null, assignee?.name ?? null]
+    );
+
+    // 最終アクセス時刻を更新
+    await updateListAccessTime(listId);
+
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// 担当アイテム（リスト名つき）
+// どのリストのアイテムかも一緒に返すとき用
+export interface ListItemWithListName extends ListItem {
+  list_name: string;
+}
+
+// ルームから見えるすべてのリストで、指定したメンバーが担当する未チェックのアイテムを取得
+export async function getAssignedItems(
+  roomId: string,
+  userId: string
+): Promise<ListItemWithListName[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT list_items.*, lists.list_name FROM list_items JOIN lists ON lists.id = list_items.list_id WHERE list_items.list_id IN (SELECT id FROM lists WHERE ${ROOM_LISTS_CONDITION} AND is_template = FALSE AND deleted_at IS NULL) AND list_items.assigned_to = $2 AND list_items.deleted_at IS NULL AND list_items.is_checked = FALSE ORDER BY lists.list_name ASC, list_items.position ASC NULLS FIRST, list_items.created_at ASC`,
+      [roomId, userId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// アイテムの売り場をまとめて変更（ルームの売り場辞書にも覚えさせる）
+export async function setItemsSection(
+  listId: number,
+  itemIds: number[],
+  section: string | null
+): Promise<ListItem[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      "UPDATE list_items SET section = $3 WHERE list_id = $1 AND id = ANY($2::int[]) RETURNING *",
+      [listId, itemIds, section]
+    );
+
+    if (section) {
+      const listResult = await client.query(
+        "SELECT * FROM lists WHERE id = $1",
+        [listId]
+      );
+      for (const item of result.rows) {
+        await learnSection(
+          client,
+          listResult.rows[0].user_id,
+          item.item_text,
+          section
+        );
+      }
+    }
+
+    // 最終アクセス時刻を更新
+    await updateListAccessTime(listId);
+
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// ルームで覚えたアイテム → 売り場の対応を取得（キーは表記揺れを除いたアイテム名）
+async function getLearnedSections(
+  client: PoolClient,
+  roomId: string
+): Promise<Map<string, string>> {
+  const result = await client.query(
+    "SELECT item_key, section FROM item_sections WHERE room_id = $1",
+    [roomId]
+  );
+  return new Map(result.rows.map((row) => [row.item_key, row.section]));
+}
+
+// アイテム → 売り場の対応を覚える
+async function learnSection(
+  client: PoolClient,
+  roomId: string,
+  itemName: string,
+  section: string
+): Promise<void> {
+  await client.query(
+    "INSERT INTO item_sections (room_id, item_key, section) VALUES ($1, $2, $3) ON CONFLICT (room_id, item_key) DO UPDATE SET section = $3, updated_at = CURRENT_TIMESTAMP",
+    [roomId, normalizeText(itemName), section]
+  );
+}
+
+// チェック済みのアイテムをまとめて削除（ゴミ箱に移す）
+export async function clearCheckedItems(
+  roomId: string,
+  listName: string
+): Promise<number> {
+  const client = await pool.connect();
+  try {
+    const list = await findListByName(client, roomId, listName);
+
+    if (!list) {
+      return 0;
+    }
+
+    // ゴミ箱に移す（deleteItemsFromList と同じく後から戻せる）
+    const result = await client.query(
+      "UPDATE list_items SET deleted_at = CURRENT_TIMESTAMP WHERE list_id = $1 AND is_checked = TRUE AND deleted_at IS NULL RETURNING id, item_text",
+      [list.id]
+    );
+
+    if (result.rows.length > 0) {
+      await recordOperation(client, roomId, "delete_items", {
+        listName: list.list_name,
+        itemIds: result.rows.map((row) => row.id),
+        names: result.rows.map((row) => row.item_text),
+      });
+    }
+
+    // 最終アクセス時刻を更新
+    await updateListAccessTime(list.id);
+
+    return result.rows.length;
+  } finally {
+    client.release();
+  }
+}
+
+// ========== 共有関連の関数 ==========
+
+// 共有コードに使う文字（見間違えやすい 0/O, 1/I は除く）
+const SHARE_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// リストの共有コードを発行（発行済みならそれを返す）
+export async function createShareCode(
+  roomId: string,
+  listName: string
+): Promise<{ list: List; shareCode: string } | null> {
+  const client = await pool.connect();
+  try {
+    const list = await findListByName(client, roomId, listName);
+
+    if (!list) {
+      return null;
+    }
+
+    if (list.share_code) {
+      return { list, shareCode: list.share_code };
+    }
+
+    const shareCode = Array.from(
+      { length: 6 },
+      () => SHARE_CODE_CHARS[crypto.randomInt(SHARE_CODE_CHARS.length)]
+    ).join("");
+
+    await client.query("UPDATE lists SET share_code = $2 WHERE id = $1", [
+      list.id,
+      shareCode,
+    ]);
+    return { list, shareCode };
+  } finally {
+    client.release();
+  }
+}
+
+// 共有への参加結果
+export type JoinSharedListResult =
+  | { status: "joined"; list: List }
+  | { status: "already"; list: List }
+  | { status: "conflict"; list: List }
+  | { status: "not_found" };
+
+// 共有コードでほかのルームのリストに参加
+export async function joinSharedList(
+  roomId: string,
+  shareCode: string
+): Promise<JoinSharedListResult> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      "SELECT * FROM lists WHERE share_code = $1 AND deleted_at IS NULL",
+      [shareCode.toUpperCase()]
+    );
+
+    if (result.rows.length === 0) {
+      return { status: "not_found" };
+    }
+
+    const list: List = result.rows[0];
+    const existing = await findListByName(client, roomId, list.list_name);
+
+    if (existing && existing.id === list.id) {
+      return { status: "already", list };
+    }
+
+    // 同じ名前のリストがあると名前で呼び分けられないので参加させない
+    if (existing) {
+      return { status: "conflict", list };
+    }
+
+    await client.query(
+      "INSERT INTO list_shares (list_id, room_id) VALUES ($1, $2) ON CONFLICT DO NOTHING",
+      [list.id, roomId]
+    );
+    return { status: "joined", list };
+  } finally {
+    client.release();
+  }
+}
+
+// 共有の解除結果（元のルームなら共有を停止、参加したルームなら共有から抜ける）
+export type UnshareListResult = "stopped" | "left" | "not_shared" | "not_found";
+
+export async function unshareList(
+  roomId: string,
+  listName: string
+): Promise<UnshareListResult> {
+  const client = await pool.connect();
+  try {
+    const list = await findListByName(client, roomId, listName);
+
+    if (!list) {
+      return "not_found";
+    }
+
+    if (list.user_id !== roomId) {
+      await client.query(
+        "DELETE FROM list_shares WHERE list_id = $1 AND room_id = $2",
+        [list.id, roomId]
+      );
+      return "left";
+    }
+
+    if (!list.share_code) {
+      return "not_shared";
+    }
+
+    await client.query("DELETE FROM list_shares WHERE list_id = $1", [list.id]);
+    await client.query("UPDATE lists SET share_code = NULL WHERE id = $1", [
+      list.id,
+    ]);
+    return "stopped";
+  } finally {
+    client.release();
+  }
+}
+
+// ========== テンプレート関連の関数 ==========
+
+// テンプレート一覧を取得
+export async function getTemplates(roomId: string): Promise<List[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      "SELECT * FROM lists WHERE user_id = $1 AND is_template = TRUE ORDER BY list_name ASC",
+      [roomId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// アイテムを別のリストへコピー（並び順は元のリストのまま）
+async function copyItems(
+  client: PoolClient,
+  fromListId: number,
+  toListId: number,
+  resetChecks: boolean
+): Promise<number> {
+  const result = await client.query(
+    "INSERT INTO list_items (list_id, item_text, quantity, unit, note, section, position, added_by, assigned_to, assigned_to_name, is_checked, checked_at, created_at) SELECT $2, item_text, quantity, unit, note, section, position, added_by, assigned_to, assigned_to_name, CASE WHEN $3 THEN FALSE ELSE is_checked END, CASE WHEN $3 THEN NULL ELSE checked_at END, created_at FROM list_items WHERE list_id = $1 AND deleted_at IS NULL",
+    [fromListId, toListId, resetChecks]
+  );
+  return result.rowCount ?? 0;
+}
+
+// リストをテンプレートとして保存（同じ名前のテンプレートがあれば中身を上書き）
+export async function saveListAsTemplate(
+  roomId: string,
+  listName: string,
+  templateName: string
+): Promise<{ template: List; itemCount: number; overwritten: boolean } | null> {
+  const source = await getListWithItems(roomId, listName);
+  if (!source) {
+    return null;
+  }
+
+  const { list: template, created } = await createList(
+    roomId,
+    templateName,
+    true
+  );
+
+  const client = await pool.connect();
+  try {
+    await client.query("DELETE FROM list_items WHERE list_id = $1", [
+      template.id,
+    ]);
+    // テンプレートにはチェック状態を持ち込まない
+    const itemCount = await copyItems(client, source.id, template.id, true);
+    return { template, itemCount, overwritten: !created };
+  } finally {
+    client.release();
+  }
+}
+
+// リストの複製結果
+export type CloneListResult =
+  | { status: "cloned"; list: List; itemCount: number }
+  | { status: "not_found" }
+  | { status: "conflict" };
+
+// リスト（またはテンプレート）から新しいリストを作る
+export async function cloneList(
+  roomId: string,
+  sourceName: string,
+  newListName: string,
+  options: { fromTemplate?: boolean; resetChecks?: boolean } = {}
+): Promise<CloneListResult> {
+  const source = await getListWithItems(
+    roomId,
+    sourceName,
+    options.fromTemplate ?? false
+  );
+  if (!source) {
+    return { status: "not_found" };
+  }
+
+  const { list, created } = await createList(roomId, newListName);
+  if (!created) {
+    return { status: "conflict" };
+  }
+
+  const client = await pool.connect();
+  try {
+    const itemCount = await copyItems(
+      client,
+      source.id,
+      list.id,
+      options.resetChecks ?? false
+    );
+    return { status: "cloned", list, itemCount };
+  } finally {
+    client.release();
+  }
+}
+
+// テンプレートを削除
+export async function deleteTemplate(
+  roomId: string,
+  templateName: string
+): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const template = await findListByName(client, roomId, templateName, true);
+
+    if (!template) {
+      return false;
+    }
+
+    const result = await client.query("DELETE FROM lists WHERE id = $1", [
+      template.id,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+// ========== リマインダー関連の関数 ==========
+
+// リマインダー一覧を取得（未完了のみ）
+export async function getReminders(roomId: string): Promise<Reminder[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      "SELECT * FROM reminders WHERE room_id = $1 AND status != 'completed' AND deleted_at IS NULL ORDER BY remind_at ASC",
+      [roomId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// リマインダーを作成
+export async function createReminder(
+  roomId: string,
+  reminderName: string,
+  message: string,
+  remindAt: Date,
+  repeatPattern?: string,
+  priority: string = "medium",
+  missedPolicy: MissedPolicy = "summary",
+  advanceNotices: number[] = [],
+  nag?: NagPolicy
+): Promise<Reminder> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      "INSERT INTO reminders (room_id, reminder_name, message, remind_at, repeat_pattern, priority, missed_policy, advance_notices, advance_notices_sent, nag_interval_minutes, nag_max_count, status) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, ARRAY(SELECT lead FROM unnest($8::int[]) AS lead WHERE $4::timestamptz - INTERVAL '1 minute' * lead <= NOW()), $9, $10, 'active') RETURNING *",
+      [
+        roomId,
+        reminderName,
+        message,
+        remindAt,
+        repeatPattern || null,
+        priority,
+        missedPolicy,
+        advanceNotices,
+        nag?.intervalMinutes ?? null,
+        nag?.maxCount ?? null,
+      ]
+    );
+    return result.rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+// リマインダーを削除（ゴミ箱に移す）
+export async function deleteReminder(
+  roomId: string,
+  reminderName: string
+): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      "UPDATE reminders SET deleted_at = CURRENT_TIMESTAMP WHERE room_id = $1 AND reminder_name = $2 AND deleted_at IS NULL RETURNING id, reminder_name",
+      [roomId, reminderName]
+    );
+    if (result.rows.length === 0) {
+      return false;
+    }
+    await recordOperation(client, roomId, "delete_reminders", {
+      reminderIds: result.rows.map((row) => row.id),
+      names: result.rows.map((row) => row.reminder_name),
+    });
+    return true;
+  } finally {
+    client.release();
+  }
+}
+
+// 特定のリマインダーを取得
+export async function getReminderByName(
+  roomId: string,
+  reminderName: string
+): Promise<Reminder | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      "SELECT * FROM reminders WHERE room_id = $1 AND reminder_name = $2 AND status != 'completed' AND deleted_at IS NULL",
+      [roomId, reminderName]
+    );
+    return result.rows.length > 0 ? result.rows[0] : null;
+  } finally {
+    client.release();
+  }
+}
+
+// リマインダーを更新（日時を変えたときは、期限切れのものもまた通知されるように active に戻し、催促もやめる）
+export async function updateReminder(
+  roomId: string,
+  reminderName: string,
+  message: string,
+  remindAt: Date,
+  repeatPattern?: string,
+  priority?: string,
+  missedPolicy?: MissedPolicy,
+  advanceNotices?: number[]
+): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    // 事前通知は新しい日時（と新しい事前通知）で数え直す
+    const result = await client.query(
+      `UPDATE reminders SET message = $3, remind_at = $4, repeat_pattern = $5, priority = $6, missed_policy = COALESCE($7, missed_policy), advance_notices = COALESCE($8, advance_notices), advance_notices_sent = ARRAY(SELECT lead FROM unnest(COALESCE($8, advance_notices)) AS lead WHERE $4::timestamptz - INTERVAL '1 minute' * lead <= NOW()), status = CASE WHEN remind_at = $4 THEN status ELSE 'active' END, awaiting_ack = CASE WHEN remind_at = $4 THEN awaiting_ack ELSE FALSE END, nag_count = CASE WHEN remind_at = $4 THEN nag_count ELSE 0 END, updated_at = CURRENT_TIMESTAMP WHERE room_id = $1 AND reminder_name = $2 AND status != 'completed' AND deleted_at IS NULL`,
+      [
+        roomId,
+        reminderName,
+        message,
+        remindAt,
+        repeatPattern || null,
+        priority || "medium",
+        missedPolicy || null,
+        advanceNotices || null,
+      ]
+    );
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+// 実行予定のリマインダーを取得（定期実行用）
+export async function getDueReminders(): Promise<Reminder[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      "SELECT * FROM reminders WHERE status = 'active' AND remind_at <= NOW() AND deleted_at IS NULL ORDER BY remind_at ASC"
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// 完了ボタンが何を完了にするか
+// occurrence: お知らせした回だけ（通知のカードから） / series: リマインダーごと（詳細のカードから。繰り返しも終わる）
+export type CompleteScope = "occurrence" | "series";
+
+// 完了した結果（already: もう完了していたので何もしなかった）
+export type CompleteResult = "occurrence" | "reminder" | "already";
+
+// リマインダーを完了にする
+// 繰り返しのリマインダーを通知のカードから完了にしたときは、お知らせした回だけ完了にして繰り返しは続ける
+// （その回がもう完了していれば、古いカードや2回目のタップで繰り返しごと終わらないよう何もしない）
+export async function completeReminder(
+  reminderId: number,
+  scope: CompleteScope = "occurrence"
+): Promise<CompleteResult> {
+  const client = await pool.connect();
+  try {
+    const current = await client.query(
+      "SELECT status, repeat_pattern, awaiting_ack FROM reminders WHERE id = $1 AND deleted_at IS NULL",
+      [reminderId]
+    );
+    if (current.rows.length === 0 || current.rows[0].status === "completed") {
+      return "already";
+    }
+
+    const reminder = current.rows[0];
+    if (
+      scope === "occurrence" &&
+      reminder.repeat_pattern &&
+      reminder.status === "active"
+    ) {
+      if (!reminder.awaiting_ack) {
+        return "already";
+      }
+      await client.query(
+        "UPDATE reminders SET awaiting_ack = FALSE, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [reminderId]
+      );
+      return "occurrence";
+    }
+
+    await client.query(
+      "UPDATE reminders SET status = 'completed', awaiting_ack = FALSE, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [reminderId]
+    );
+    return "reminder";
+  } finally {
+    client.release();
+  }
+}
+
+// リマインダーをスヌーズ（指定分後に再設定）
+export async function snoozeReminder(
+  reminderId: number,
+  minutesLater: number
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    // 元に戻せるようにスヌーズ前の状態を記録しておく
+    // （スヌーズで消える催促・事前通知の状態も戻せるように）
+    const before = await client.query(
+      "SELECT room_id, reminder_name, remind_at, status, awaiting_ack, nag_count, advance_notices_sent FROM reminders WHERE id = $1",
+      [reminderId]
+    );
+    if (before.rows.length > 0) {
+      const reminder = before.rows[0];
+      await recordOperation(client, reminder.room_id, "snooze", {
+        reminderId,
+        reminderName: reminder.reminder_name,
+        remindAt: reminder.remind_at,
+        status: reminder.status,
+        awaitingAck: reminder.awaiting_ack,
+        nagCount: reminder.nag_count,
+        advanceNoticesSent: reminder.advance_notices_sent,
+      });
+    }
+
+    await client.query(
+      `UPDATE reminders SET remind_at = NOW() + INTERVAL '1 minute' * $2, ${resetAdvanceNoticesSql(
+        "(NOW() + INTERVAL '1 minute' * $2)"
+      )}, status = 'active', awaiting_ack = FALSE, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [reminderId, minutesLater]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// 繰り返しリマインダーを次の回にスケジュール
+// 次の回がない（回数・期限が終わった）ときは繰り返しを外して、今回の分を完了待ちのまま残す
+export async function rescheduleRepeatingReminder(
+  reminderId: number,
+  next: NextOccurrence | null
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    if (!next) {
+      await client.query(
+        "UPDATE reminders SET repeat_pattern = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [reminderId]
+      );
+      return;
+    }
+
+    await client.query(
+      `UPDATE reminders SET remind_at = $2, repeat_pattern = $3, ${resetAdvanceNoticesSql(
+        "$2::timestamptz"
+      )}, status = 'active' WHERE id = $1`,
+      [reminderId, next.remindAt, next.repeatPattern]
     );
-    return result.rows;
   } finally {
     client.release();
   }
 }
 
-// リマインダーを作成
-export async function createReminder(
+// 完了したリマインダー履歴を取得
+export async function getCompletedReminders(
   roomId: string,
-  reminderName: string,
-  message: string,
-  remindAt: Date,
-  repeatPattern?: string,
-  priority: string = "medium"
-): Promise<Reminder> {
+  limit: number = 10,
+  offset: number = 0
+): Promise<Reminder[]> {
   const client = await pool.connect();
   try {
     const result = await client.query(
-      "INSERT INTO reminders (room_id, reminder_name, message, remind_at, repeat_pattern, priority, status) VALUES ($1, $2, $3, $4, $5, $6, 'active') RETURNING *",
-      [roomId, reminderName, message, remindAt, repeatPattern || null, priority]
+      "SELECT * FROM reminders WHERE room_id = $1 AND status = 'completed' AND deleted_at IS NULL ORDER BY updated_at DESC LIMIT $2 OFFSET $3",
+      [roomId, limit, offset]
     );
-    return result.rows[0];
+    return result.rows;
   } finally {
     client.release();
   }
 }
 
-// リマインダーを削除
-export async function deleteReminder(
-  roomId: string,
-  reminderName: string
-): Promise<boolean> {
+// ========== ステータス管理関数 ==========
+
+// リマインダーのステータスを更新
+export async function updateReminderStatus(
+  reminderId: number,
+  status: "active" | "pending" | "completed"
+): Promise<void> {
   const client = await pool.connect();
   try {
-    const result = await client.query(
-      "DELETE FROM reminders WHERE room_id = $1 AND reminder_name = $2",
-      [roomId, reminderName]
+    await client.query(
+      "UPDATE reminders SET status = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [reminderId, status]
     );
-    return (result.rowCount ?? 0) > 0;
   } finally {
     client.release();
   }
 }
 
-// 特定のリマインダーを取得
-export async function getReminderByName(
-  roomId: string,
-  reminderName: string
-): Promise<Reminder | null> {
+// お知らせを送ったリマインダーをアクション待ちにする（送った時刻も記録）
+// 繰り返しのリマインダーはこのあと次の回に進むが、awaiting_ack が残るので今回の分の催促は続く
+export async function markReminderNotified(reminderId: number): Promise<void> {
   const client = await pool.connect();
   try {
-    const result = await client.query(
-      "SELECT * FROM reminders WHERE room_id = $1 AND reminder_name = $2 AND status != 'completed'",
-      [roomId, reminderName]
+    await client.query(
+      "UPDATE reminders SET status = 'pending', last_notified_at = CURRENT_TIMESTAMP, notified_occurrence_at = remind_at, nag_count = 0, awaiting_ack = TRUE, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [reminderId]
     );
-    return result.rows.length > 0 ? result.rows[0] : null;
   } finally {
     client.release();
   }
 }
 
-// リマインダーを更新
-export async function updateReminder(
-  roomId: string,
-  reminderName: string,
-  message: string,
-  remindAt: Date,
-  repeatPattern?: string,
-  priority?: string
-): Promise<boolean> {
+// 事前通知の時刻が来たリマインダーを取得（止まっていて複数たまっていたら一番近いものだけ）
+export async function getDueAdvanceNotices(): Promise<DueAdvanceNotice[]> {
   const client = await pool.connect();
   try {
     const result = await client.query(
-      "UPDATE reminders SET message = $3, remind_at = $4, repeat_pattern = $5, priority = $6, updated_at = CURRENT_TIMESTAMP WHERE room_id = $1 AND reminder_name = $2",
-      [
-        roomId,
-        reminderName,
-        message,
-        remindAt,
-        repeatPattern || null,
-        priority || "medium",
-      ]
+      "SELECT DISTINCT ON (r.id) r.*, lead AS lead_minutes FROM reminders r, unnest(r.advance_notices) AS lead WHERE r.status = 'active' AND r.deleted_at IS NULL AND r.remind_at > NOW() AND r.remind_at - INTERVAL '1 minute' * lead <= NOW() AND NOT (lead = ANY(r.advance_notices_sent)) ORDER BY r.id, lead ASC"
     );
-    return (result.rowCount ?? 0) > 0;
+    return result.rows.map(({ lead_minutes, ...reminder }) => ({
+      reminder,
+      leadMinutes: lead_minutes,
+    }));
   } finally {
     client.release();
   }
 }
 
-// 実行予定のリマインダーを取得（定期実行用）
-export async function getDueReminders(): Promise<Reminder[]> {
+// ルームの催促の設定（設定していなければ null、「しつこく なし」なら intervalMinutes が 0）
+export async function getRoomNagPolicy(
+  roomId: string
+): Promise<NagPolicy | null> {
   const client = await pool.connect();
   try {
     const result = await client.query(
-      "SELECT * FROM reminders WHERE status = 'active' AND remind_at <= NOW() ORDER BY remind_at ASC"
+      "SELECT nag_interval_minutes, nag_max_count FROM room_settings WHERE room_id = $1 AND nag_interval_minutes IS NOT NULL",
+      [roomId]
     );
-    return result.rows;
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return {
+      intervalMinutes: result.rows[0].nag_interval_minutes,
+      maxCount: result.rows[0].nag_max_count ?? DEFAULT_NAG_MAX_COUNT,
+    };
   } finally {
     client.release();
   }
 }
 
-// リマインダーを完了にする
-export async function completeReminder(reminderId: number): Promise<void> {
+// ルームの催促の設定を変更（intervalMinutes が 0 なら優先度「高」も含めて催促しない）
+export async function setRoomNagPolicy(
+  roomId: string,
+  policy: NagPolicy
+): Promise<void> {
   const client = await pool.connect();
   try {
     await client.query(
-      "UPDATE reminders SET status = 'completed', updated_at = CURRENT_TIMESTAMP WHERE id = $1",
-      [reminderId]
+      `INSERT INTO room_settings (room_id, nag_interval_minutes, nag_max_count) VALUES ($1, $2, $3)
+       ON CONFLICT (room_id) DO UPDATE SET nag_interval_minutes = $2, nag_max_count = $3, updated_at = CURRENT_TIMESTAMP`,
+      [roomId, policy.intervalMinutes, policy.maxCount]
     );
   } finally {
     client.release();
   }
 }
 
-// リマインダーをスヌーズ（指定分後に再設定）
-export async function snoozeReminder(
-  reminderId: number,
-  minutesLater: number
-): Promise<void> {
+// リマインダーごとの催促の設定を変更（見つからなければ false）
+export async function setReminderNagPolicy(
+  roomId: string,
+  reminderName: string,
+  policy: NagPolicy
+): Promise<boolean> {
   const client = await pool.connect();
   try {
-    await client.query(
-      "UPDATE reminders SET remind_at = NOW() + INTERVAL '1 minute' * $2, status = 'active', updated_at = CURRENT_TIMESTAMP WHERE id = $1",
-      [reminderId, minutesLater]
+    const result = await client.query(
+      "UPDATE reminders SET nag_interval_minutes = $3, nag_max_count = $4, updated_at = CURRENT_TIMESTAMP WHERE room_id = $1 AND reminder_name = $2 AND status != 'completed' AND deleted_at IS NULL",
+      [roomId, reminderName, policy.intervalMinutes, policy.maxCount]
     );
+    return (result.rowCount ?? 0) > 0;
   } finally {
     client.release();
   }
 }
 
-// 繰り返しリマインダーの次回実行時刻を計算して更新
-export async function rescheduleRepeatingReminder(
-  reminder: Reminder
+// 事前通知を送ったことにする（一緒に過ぎていた長い方の事前通知も含めて）
+export async function markAdvanceNoticeSent(
+  reminderId: number,
+  leadMinutes: number
 ): Promise<void> {
   const client = await pool.connect();
   try {
-    let nextRemindAt = new Date(reminder.remind_at);
-
-    switch (reminder.repeat_pattern) {
-      case "daily":
-        nextRemindAt.setDate(nextRemindAt.getDate() + 1);
-        break;
-      case "weekly":
-        nextRemindAt.setDate(nextRemindAt.getDate() + 7);
-        break;
-      case "monthly":
-        nextRemindAt.setMonth(nextRemindAt.getMonth() + 1);
-        break;
-      default:
-        // 繰り返しなしの場合は完了にする
-        await completeReminder(reminder.id);
-        return;
-    }
-
     await client.query(
-      "UPDATE reminders SET remind_at = $2, status = 'active' WHERE id = $1",
-      [reminder.id, nextRemindAt]
+      "UPDATE reminders SET advance_notices_sent = ARRAY(SELECT lead FROM unnest(advance_notices) AS lead WHERE lead >= $2 OR lead = ANY(advance_notices_sent)) WHERE id = $1",
+      [reminderId, leadMinutes]
     );
   } finally {
     client.release();
   }
 }
 
-// 完了したリマインダー履歴を取得
-export async function getCompletedReminders(
-  roomId: string,
-  limit: number = 10
-): Promise<Reminder[]> {
+// 催促したことを記録する（回数を数えて、次の催促は今から間隔をあける）
+export async function markReminderNagged(reminderId: number): Promise<void> {
   const client = await pool.connect();
   try {
-    const result = await client.query(
-      "SELECT * FROM reminders WHERE room_id = $1 AND status = 'completed' ORDER BY updated_at DESC LIMIT $2",
-      [roomId, limit]
+    await client.query(
+      "UPDATE reminders SET nag_count = nag_count + 1, last_notified_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [reminderId]
     );
-    return result.rows;
   } finally {
     client.release();
   }
 }
 
-// ========== ステータス管理関数 ==========
-
-// リマインダーのステータスを更新
-export async function updateReminderStatus(
-  reminderId: number,
-  status: "active" | "pending" | "completed"
-): Promise<void> {
+// お知らせしたのに完了もスヌーズもされていないリマインダーのうち、催促の時刻が来たものを取得
+// 催促の設定はリマインダー → ルーム → 優先度「高」なら HIGH_PRIORITY_RENOTIFY_MINUTES の順に決まる
+// 優先度「高」は回数の上限をリマインダーかルームで決めていなければ、完了するまでお知らせし続ける
+// 繰り返しのリマインダーは次の回に進んで pending ではなくなるので、お知らせした回が完了待ち（awaiting_ack）かどうかで見る
+export async function getUnansweredReminders(): Promise<UnansweredReminder[]> {
   const client = await pool.connect();
   try {
-    await client.query(
-      "UPDATE reminders SET status = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
-      [reminderId, status]
+    const result = await client.query(
+      `SELECT * FROM (
+         SELECT r.*,
+           COALESCE(r.nag_interval_minutes, s.nag_interval_minutes, CASE WHEN r.priority = 'high' THEN $1::int END) AS nag_interval,
+           COALESCE(r.nag_max_count, s.nag_max_count, CASE WHEN r.priority = 'high' THEN NULL ELSE $2::int END) AS nag_max
+         FROM reminders r LEFT JOIN room_settings s ON s.room_id = r.room_id
+         WHERE (r.status = 'pending' OR (r.status = 'active' AND r.awaiting_ack)) AND r.deleted_at IS NULL
+       ) AS unanswered
+       WHERE nag_interval > 0 AND (nag_max IS NULL OR nag_count < nag_max) AND COALESCE(last_notified_at, remind_at) <= NOW() - INTERVAL '1 minute' * nag_interval
+       ORDER BY remind_at ASC`,
+      [HIGH_PRIORITY_RENOTIFY_MINUTES, DEFAULT_NAG_MAX_COUNT]
     );
+    return result.rows.map(({ nag_interval, nag_max, ...reminder }) => ({
+      reminder,
+      nagMax: nag_max,
+    }));
   } finally {
     client.release();
   }
@@ -423,19 +1537,20 @@ export async function getCategorizedReminders(
 
     // 未完了（まだ期限が来ていない）
     const activeResult = await client.query(
-      "SELECT * FROM reminders WHERE room_id = $1 AND status = 'active' AND remind_at > $2 ORDER BY remind_at ASC",
+      "SELECT * FROM reminders WHERE room_id = $1 AND status = 'active' AND remind_at > $2 AND deleted_at IS NULL ORDER BY remind_at ASC",
       [roomId, now]
     );
 
-    // 期限超過（通知済み・アクション待ち）
+    // 期限超過（通知済み・アクション待ちと、時刻は過ぎたがまだ通知していないもの）
+    // 優先度「低」はまとめてお知らせする時刻まで active のまま待つので、ここに含めないと一覧から消えてしまう
     const pendingResult = await client.query(
-      "SELECT * FROM reminders WHERE room_id = $1 AND status = 'pending' ORDER BY remind_at ASC",
-      [roomId]
+      "SELECT * FROM reminders WHERE room_id = $1 AND (status = 'pending' OR (status = 'active' AND remind_at <= $2)) AND deleted_at IS NULL ORDER BY remind_at ASC",
+      [roomId, now]
     );
 
     // 完了済み（最新10件）
     const completedResult = await client.query(
-      "SELECT * FROM reminders WHERE room_id = $1 AND status = 'completed' ORDER BY updated_at DESC LIMIT 10",
+      "SELECT * FROM reminders WHERE room_id = $1 AND status = 'completed' AND deleted_at IS NULL ORDER BY updated_at DESC LIMIT 10",
       [roomId]
     );
 
@@ -451,6 +1566,7 @@ export async function getCategorizedReminders(
 
 // ========== 複数削除 ==========
 
+// 複数のリマインダーをゴミ箱に移す
 export async function deleteRemindersByIds(
   roomId: string,
   reminderIds: number[]
@@ -458,10 +1574,16 @@ export async function deleteRemindersByIds(
   const client = await pool.connect();
   try {
     const result = await client.query(
-      "DELETE FROM reminders WHERE room_id = $1 AND id = ANY($2::int[])",
+      "UPDATE reminders SET deleted_at = CURRENT_TIMESTAMP WHERE room_id = $1 AND id = ANY($2::int[]) AND deleted_at IS NULL RETURNING id, reminder_name",
       [roomId, reminderIds]
     );
-    return result.rowCount ?? 0;
+    if (result.rows.length > 0) {
+      await recordOperation(client, roomId, "delete_reminders", {
+        reminderIds: result.rows.map((row) => row.id),
+        names: result.rows.map((row) => row.reminder_name),
+      });
+    }
+    return result.rows.length;
   } finally {
     client.release();
   }
@@ -511,13 +1633,13 @@ export async function getStaleData(roomId: string): Promise<StaleData> {
 
     // 2ヶ月以上更新がなく、完了していないリマインダー
     const reminders = await client.query(
-      "SELECT * FROM reminders WHERE room_id = $1 AND updated_at < $2 AND status != 'completed' AND cleanup_warning_at IS NULL",
+      "SELECT * FROM reminders WHERE room_id = $1 AND updated_at < $2 AND status != 'completed' AND cleanup_warning_at IS NULL AND deleted_at IS NULL",
       [roomId, twoMonthsAgo]
     );
 
-    // 2ヶ月以上アクセスがないリスト
+    // 2ヶ月以上アクセスがないリスト（テンプレートは対象外）
     const lists = await client.query(
-      "SELECT * FROM lists WHERE user_id = $1 AND last_accessed_at < $2 AND cleanup_warning_at IS NULL",
+      "SELECT * FROM lists WHERE user_id = $1 AND is_template = FALSE AND last_accessed_at < $2 AND cleanup_warning_at IS NULL AND deleted_at IS NULL",
       [roomId, twoMonthsAgo]
     );
 
@@ -555,7 +1677,7 @@ export async function markCleanupWarning(
   }
 }
 
-// 警告後1ヶ月経過したデータを削除
+// 警告後1ヶ月経過したデータを削除（ゴミ箱に移す）
 export async function deleteWarnedData(roomId: string): Promise<number> {
   const client = await pool.connect();
   try {
@@ -566,14 +1688,14 @@ export async function deleteWarnedData(roomId: string): Promise<number> {
 
     // リマインダー削除
     const remindersResult = await client.query(
-      "DELETE FROM reminders WHERE room_id = $1 AND cleanup_warning_at IS NOT NULL AND cleanup_warning_at < $2",
+      "UPDATE reminders SET deleted_at = CURRENT_TIMESTAMP WHERE room_id = $1 AND cleanup_warning_at IS NOT NULL AND cleanup_warning_at < $2 AND deleted_at IS NULL",
       [roomId, oneMonthAgo]
     );
     totalDeleted += remindersResult.rowCount ?? 0;
 
     // リスト削除
     const listsResult = await client.query(
-      "DELETE FROM lists WHERE user_id = $1 AND cleanup_warning_at IS NOT NULL AND cleanup_warning_at < $2",
+      "UPDATE lists SET deleted_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND cleanup_warning_at IS NOT NULL AND cleanup_warning_at < $2 AND deleted_at IS NULL",
       [roomId, oneMonthAgo]
     );
     totalDeleted += listsResult.rowCount ?? 0;
@@ -610,33 +1732,367 @@ export async function getAllRoomIds(): Promise<string[]> {
   }
 }
 
-// クリーンアップ対象を一括削除
+// クリーンアップ対象を一括削除（ゴミ箱に移す）
 export async function deleteStaleDataByIds(
+  roomId: string,
   reminderIds: number[],
   listIds: number[]
 ): Promise<{ reminders: number; lists: number }> {
   const client = await pool.connect();
   try {
-    let reminderCount = 0;
-    let listCount = 0;
+    let deletedReminderIds: number[] = [];
+    let deletedListIds: number[] = [];
 
     if (reminderIds.length > 0) {
       const reminderResult = await client.query(
-        "DELETE FROM reminders WHERE id = ANY($1::int[])",
-        [reminderIds]
+        "UPDATE reminders SET deleted_at = CURRENT_TIMESTAMP WHERE room_id = $1 AND id = ANY($2::int[]) AND deleted_at IS NULL RETURNING id",
+        [roomId, reminderIds]
       );
-      reminderCount = reminderResult.rowCount ?? 0;
+      deletedReminderIds = reminderResult.rows.map((row) => row.id);
     }
 
     if (listIds.length > 0) {
       const listResult = await client.query(
-        "DELETE FROM lists WHERE id = ANY($1::int[])",
-        [listIds]
+        "UPDATE lists SET deleted_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND id = ANY($2::int[]) AND deleted_at IS NULL RETURNING id",
+        [roomId, listIds]
+      );
+      deletedListIds = listResult.rows.map((row) => row.id);
+    }
+
+    if (deletedReminderIds.length > 0 || deletedListIds.length > 0) {
+      await recordOperation(client, roomId, "cleanup", {
+        reminderIds: deletedReminderIds,
+        listIds: deletedListIds,
+      });
+    }
+
+    return {
+      reminders: deletedReminderIds.length,
+      lists: deletedListIds.length,
+    };
+  } finally {
+    client.release();
+  }
+}
+
+// ========== 検索 ==========
+
+export interface SearchResults {
+  lists: List[];
+  items: ListItemWithListName[];
+  reminders: Reminder[];
+}
+
+// ルームのリスト名・アイテム・リマインダーをキーワードで検索
+// 表記揺れ（カタカナ/ひらがな・全角/半角など）を吸収するため、絞り込みは取得後に行う
+export async function searchRoom(
+  roomId: string,
+  keyword: string
+): Promise<SearchResults> {
+  const client = await pool.connect();
+  try {
+    const key = normalizeText(keyword);
+    const matches = (text: string) => normalizeText(text).includes(key);
+
+    const lists = await client.query(
+      `SELECT * FROM lists WHERE ${ROOM_LISTS_CONDITION} AND is_template = FALSE AND deleted_at IS NULL ORDER BY list_name ASC`,
+      [roomId]
+    );
+
+    const items = await client.query(
+      `SELECT list_items.*, lists.list_name FROM list_items JOIN lists ON lists.id = list_items.list_id WHERE list_items.list_id IN (SELECT id FROM lists WHERE ${ROOM_LISTS_CONDITION} AND is_template = FALSE AND deleted_at IS NULL) AND list_items.deleted_at IS NULL ORDER BY lists.list_name ASC, list_items.is_checked ASC, list_items.position ASC NULLS FIRST`,
+      [roomId]
+    );
+
+    // 詳細を開けるのは未完了のものだけなので、完了済みは対象外
+    const reminders = await client.query(
+      "SELECT * FROM reminders WHERE room_id = $1 AND status != 'completed' AND deleted_at IS NULL ORDER BY remind_at ASC",
+      [roomId]
+    );
+
+    return {
+      lists: lists.rows.filter((list: List) => matches(list.list_name)),
+      items: items.rows.filter(
+        (item: ListItemWithListName) =>
+          matches(item.item_text) || (!!item.note && matches(item.note))
+      ),
+      reminders: reminders.rows.filter(
+        (reminder: Reminder) =>
+          matches(reminder.message) || matches(reminder.reminder_name)
+      ),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+// ========== ゴミ箱関連 ==========
+
+// ゴミ箱に入れておく日数（過ぎたものはクリーンアップで完全に削除）
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface TrashEntry {
+  type: "list" | "item" | "reminder";
+  id: number;
+  name: string;
+  list_name: string | null;
+  deleted_at: Date;
+}
+
+// 最近削除したもの（新しい順）
+// リストと一緒に消えたアイテムはリストを戻せば戻るので、個別には出さない
+export async function getTrash(
+  roomId: string,
+  limit: number = 20
+): Promise<TrashEntry[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT 'list' AS type, id, list_name AS name, NULL AS list_name, deleted_at FROM lists WHERE user_id = $1 AND deleted_at IS NOT NULL
+       UNION ALL
+       SELECT 'item' AS type, list_items.id, list_items.item_text AS name, lists.list_name, list_items.deleted_at FROM list_items JOIN lists ON lists.id = list_items.list_id WHERE list_items.list_id IN (SELECT id FROM lists WHERE ${ROOM_LISTS_CONDITION} AND deleted_at IS NULL) AND list_items.deleted_at IS NOT NULL
+       UNION ALL
+       SELECT 'reminder' AS type, id, reminder_name AS name, NULL AS list_name, deleted_at FROM reminders WHERE room_id = $1 AND deleted_at IS NOT NULL
+       ORDER BY deleted_at DESC LIMIT $2`,
+      [roomId, limit]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// 元に戻した結果（同じ名前のものが既にあると conflict）
+export type RestoreResult = "restored" | "conflict" | "not_found";
+
+// ゴミ箱から元に戻す
+export async function restoreFromTrash(
+  roomId: string,
+  entry: Pick<TrashEntry, "type" | "id">
+): Promise<RestoreResult> {
+  const client = await pool.connect();
+  try {
+    if (entry.type === "list") {
+      const trashed = await client.query(
+        "SELECT * FROM lists WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL",
+        [entry.id, roomId]
       );
-      listCount = listResult.rowCount ?? 0;
+      if (trashed.rows.length === 0) {
+        return "not_found";
+      }
+
+      const existing = await findListByName(
+        client,
+        roomId,
+        trashed.rows[0].list_name
+      );
+      if (existing) {
+        return "conflict";
+      }
+
+      // 戻したリストがすぐにクリーンアップ対象にならないようにアクセス時刻も更新
+      await client.query(
+        "UPDATE lists SET deleted_at = NULL, cleanup_warning_at = NULL, last_accessed_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [entry.id]
+      );
+      return "restored";
+    }
+
+    if (entry.type === "item") {
+      const result = await client.query(
+        `UPDATE list_items SET deleted_at = NULL WHERE id = $2 AND deleted_at IS NOT NULL AND list_id IN (SELECT id FROM lists WHERE ${ROOM_LISTS_CONDITION} AND deleted_at IS NULL)`,
+        [roomId, entry.id]
+      );
+      return (result.rowCount ?? 0) > 0 ? "restored" : "not_found";
+    }
+
+    const trashed = await client.query(
+      "SELECT * FROM reminders WHERE id = $1 AND room_id = $2 AND deleted_at IS NOT NULL",
+      [entry.id, roomId]
+    );
+    if (trashed.rows.length === 0) {
+      return "not_found";
+    }
+
+    const existing = await client.query(
+      "SELECT id FROM reminders WHERE room_id = $1 AND reminder_name = $2 AND status != 'completed' AND deleted_at IS NULL",
+      [roomId, trashed.rows[0].reminder_name]
+    );
+    if (existing.rows.length > 0) {
+      return "conflict";
+    }
+
+    await client.query(
+      "UPDATE reminders SET deleted_at = NULL, cleanup_warning_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [entry.id]
+    );
+    return "restored";
+  } finally {
+    client.release();
+  }
+}
+
+// 保存期間を過ぎたゴミ箱の中身を完全に削除（クリーンアップ用）
+export async function purgeTrash(
+  retentionDays: number = TRASH_RETENTION_DAYS
+): Promise<number> {
+  const client = await pool.connect();
+  try {
+    let totalPurged = 0;
+
+    const remindersResult = await client.query(
+      "DELETE FROM reminders WHERE deleted_at < NOW() - INTERVAL '1 day' * $1",
+      [retentionDays]
+    );
+    totalPurged += remindersResult.rowCount ?? 0;
+
+    const itemsResult = await client.query(
+      "DELETE FROM list_items WHERE deleted_at < NOW() - INTERVAL '1 day' * $1",
+      [retentionDays]
+    );
+    totalPurged += itemsResult.rowCount ?? 0;
+
+    // リストのアイテムは ON DELETE CASCADE で一緒に消える
+    const listsResult = await client.query(
+      "DELETE FROM lists WHERE deleted_at < NOW() - INTERVAL '1 day' * $1",
+      [retentionDays]
+    );
+    totalPurged += listsResult.rowCount ?? 0;
+
+    // ゴミ箱から消えたものは元に戻せないので、操作履歴も同じ期間で消す
+    await client.query(
+      "DELETE FROM operation_journal WHERE created_at < NOW() - INTERVAL '1 day' * $1",
+      [retentionDays]
+    );
+
+    return totalPurged;
+  } finally {
+    client.release();
+  }
+}
+
+// ========== 操作履歴（元に戻す） ==========
+
+export type JournalOperation =
+  | "delete_items"
+  | "delete_list"
+  | "leave_list"
+  | "delete_reminders"
+  | "cleanup"
+  | "snooze";
+
+export interface JournalEntry {
+  id: number;
+  room_id: string;
+  operation: JournalOperation;
+  payload: any;
+  created_at: Date;
+  undone_at: Date | null;
+}
+
+// 元に戻した結果（同じ名前のものが既にあって戻せなかったものは conflicts）
+export type UndoResult =
+  | {
+      status: "undone";
+      entry: JournalEntry;
+      restored: number;
+      conflicts: number;
+    }
+  | { status: "nothing" };
+
+// 元に戻せる操作を記録
+async function recordOperation(
+  client: PoolClient,
+  roomId: string,
+  operation: JournalOperation,
+  payload: Record<string, unknown>
+): Promise<void> {
+  await client.query(
+    "INSERT INTO operation_journal (room_id, operation, payload) VALUES ($1, $2, $3)",
+    [roomId, operation, JSON.stringify(payload)]
+  );
+}
+
+// ルームで最後に行った操作を取り消す（続けて呼ぶとさらに前の操作を取り消す）
+export async function undoLastOperation(roomId: string): Promise<UndoResult> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      "SELECT * FROM operation_journal WHERE room_id = $1 AND undone_at IS NULL ORDER BY created_at DESC, id DESC LIMIT 1",
+      [roomId]
+    );
+
+    if (result.rows.length === 0) {
+      return { status: "nothing" };
+    }
+
+    const entry: JournalEntry = result.rows[0];
+    const payload = entry.payload;
+    let restored = 0;
+    let conflicts = 0;
+
+    // ゴミ箱に移したものを戻す
+    const restore = async (type: TrashEntry["type"], ids: number[]) => {
+      for (const id of ids) {
+        const status = await restoreFromTrash(roomId, { type, id });
+        if (status === "restored") {
+          restored++;
+        } else if (status === "conflict") {
+          conflicts++;
+        }
+      }
+    };
+
+    switch (entry.operation) {
+      case "delete_items":
+        await restore("item", payload.itemIds);
+        break;
+      case "delete_list":
+        await restore("list", [payload.listId]);
+        break;
+      case "leave_list": {
+        // 共有元がリストを消していたら参加し直せない
+        const joined = await client.query(
+          "INSERT INTO list_shares (list_id, room_id) SELECT id, $2 FROM lists WHERE id = $1 AND deleted_at IS NULL ON CONFLICT DO NOTHING",
+          [payload.listId, roomId]
+        );
+        restored = joined.rowCount ?? 0;
+        break;
+      }
+      case "delete_reminders":
+        await restore("reminder", payload.reminderIds);
+        break;
+      case "cleanup":
+        await restore("reminder", payload.reminderIds);
+        await restore("list", payload.listIds);
+        break;
+      case "snooze": {
+        // 催促・事前通知の状態を記録していない古い記録は、事前通知だけ remind_at から計算し直す
+        const advanceNoticesSql = payload.advanceNoticesSent
+          ? "advance_notices_sent = $6::int[]"
+          : resetAdvanceNoticesSql("$2::timestamptz");
+        const snoozed = await client.query(
+          `UPDATE reminders SET remind_at = $2, status = $3, awaiting_ack = COALESCE($4, awaiting_ack), nag_count = COALESCE($5, nag_count), ${advanceNoticesSql}, updated_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL`,
+          [
+            payload.reminderId,
+            new Date(payload.remindAt),
+            payload.status,
+            payload.awaitingAck ?? null,
+            payload.nagCount ?? null,
+            ...(payload.advanceNoticesSent ? [payload.advanceNoticesSent] : []),
+          ]
+        );
+        restored = snoozed.rowCount ?? 0;
+        break;
+      }
     }
 
-    return { reminders: reminderCount, lists: listCount };
+    await client.query(
+      "UPDATE operation_journal SET undone_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [entry.id]
+    );
+
+    return { status: "undone", entry, restored, conflicts };
   } finally {
     client.release();
   }
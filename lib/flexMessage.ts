@@ -0,0 +1,775 @@
+// lib/flexMessage.ts
+import type {
+  CategorizedReminders,
+  CompleteScope,
+  List,
+  ListItem,
+  Reminder,
+} from "@/lib/db";
+import {
+  describeRepeatPattern,
+  formatDateTime,
+  getRelativeTime,
+} from "@/lib/dateParser";
+import { formatItem } from "@/lib/itemParser";
+import { quoteArg } from "@/lib/commandParser";
+
+const COLOR_MAIN = "#06C755";
+const COLOR_SUB = "#888888";
+const COLOR_CHECKED = "#AAAAAA";
+const COLOR_ALERT = "#E53935";
+
+// altText の上限（LINEの仕様）
+const ALT_TEXT_LIMIT = 400;
+
+// 1つのバブルに並べるアイテム・リマインダーの上限（バブルのJSONサイズ制限対策）
+// これを超える分は「もっと見る」で次のページを表示する
+export const MAX_ROWS_PER_BUBBLE = 20;
+
+/**
+ * 通知やトーク一覧に出るプレーンテキスト（Flexを表示できない環境でもこれが出る）
+ */
+export function toAltText(text: string): string {
+  return text.length > ALT_TEXT_LIMIT
+    ? `${text.substring(0, ALT_TEXT_LIMIT - 1)}…`
+    : text;
+}
+
+// ========== 部品 ==========
+
+function textComponent(text: string, options: Record<string, any> = {}) {
+  // 空文字はLINEに弾かれるので空白にしておく
+  return { type: "text", text: text || " ", wrap: true, ...options };
+}
+
+function postbackButton(
+  label: string,
+  data: string,
+  displayText?: string,
+  options: Record<string, any> = {}
+) {
+  return {
+    type: "button",
+    height: "sm",
+    action: {
+      type: "postback",
+      label,
+      data,
+      ...(displayText ? { displayText } : {}),
+    },
+    ...options,
+  };
+}
+
+// 「ラベル　値」の1行
+function labeledRow(label: string, value: string, color?: string) {
+  return {
+    type: "box",
+    layout: "baseline",
+    spacing: "sm",
+    contents: [
+      textComponent(label, { size: "sm", color: COLOR_SUB, flex: 2 }),
+      textComponent(value, {
+        size: "sm",
+        flex: 5,
+        ...(color ? { color } : {}),
+      }),
+    ],
+  };
+}
+
+// 「もっと見る」ボタン（次のページを表示する postback）
+function moreButton(data: string) {
+  return postbackButton("▶️ もっと見る", data, undefined, { style: "link" });
+}
+
+// 「（2/3ページ）」のような表記（1ページしかなければ空）
+function pageLabel(page: number, total: number): string {
+  const pageCount = Math.ceil(total / MAX_ROWS_PER_BUBBLE);
+  return pageCount > 1 ? `（${page + 1}/${pageCount}ページ）` : "";
+}
+
+function header(title: string, subtitle?: string) {
+  return {
+    type: "box",
+    layout: "vertical",
+    contents: [
+      textComponent(title, { weight: "bold", size: "lg" }),
+      ...(subtitle
+        ? [textComponent(subtitle, { size: "xs", color: COLOR_SUB })]
+        : []),
+    ],
+  };
+}
+
+// ========== 表示用ラベル ==========
+
+export function priorityLabel(priority: string): string {
+  return priority === "high" ? "🔴高" : priority === "low" ? "🟢低" : "🟡中";
+}
+
+// 一覧で用件の前につける目印（中は何もつけない）
+export function priorityMark(priority: string): string {
+  return priority === "high" ? "🔴 " : priority === "low" ? "🟢 " : "";
+}
+
+export function repeatLabel(repeatPattern: string | null): string {
+  const label = describeRepeatPattern(repeatPattern);
+  return label ? `🔄${label}` : "なし";
+}
+
+// 事前通知の時間（例: 1440 → "1日", 90 → "90分"）
+export function leadTimeLabel(minutes: number): string {
+  if (minutes % (7 * 24 * 60) === 0) {
+    return `${minutes / (7 * 24 * 60)}週間`;
+  }
+  if (minutes % (24 * 60) === 0) {
+    return `${minutes / (24 * 60)}日`;
+  }
+  if (minutes % 60 === 0) {
+    return `${minutes / 60}時間`;
+  }
+  return `${minutes}分`;
+}
+
+export function advanceNoticesLabel(advanceNotices?: number[]): string {
+  return advanceNotices && advanceNotices.length > 0
+    ? advanceNotices.map((lead) => `${leadTimeLabel(lead)}前`).join("・")
+    : "なし";
+}
+
+// リマインダーごとの催促の設定（ルームの設定に従うときは null）
+export function nagPolicyLabel(reminder: Reminder): string | null {
+  if (
+    reminder.nag_interval_minutes === null ||
+    reminder.nag_interval_minutes === undefined
+  ) {
+    return null;
+  }
+  return reminder.nag_interval_minutes > 0
+    ? `${leadTimeLabel(reminder.nag_interval_minutes)}おき・最大${
+        reminder.nag_max_count
+      }回`
+    : "しない";
+}
+
+// 催促の文言（回を重ねるほど強く、最後の回はそう伝える）
+function nagSubtitle(nagCount: number, nagMax: number | null): string {
+  if (nagMax !== null && nagCount >= nagMax) {
+    return `📣 これが最後のお知らせだよ（${nagCount}回目）`;
+  }
+  if (nagCount >= 3) {
+    return `🚨 まだ完了していないよ！忘れてない？（${nagCount}回目）`;
+  }
+  if (nagCount === 2) {
+    return `⚠️ まだ完了していないみたい（${nagCount}回目）`;
+  }
+  return "🔔 まだ完了していないよ";
+}
+
+export function missedPolicyLabel(missedPolicy?: string): string {
+  return missedPolicy === "catch_up" ? "全部お知らせ" : "まとめて1回";
+}
+
+// ========== リスト ==========
+
+function itemRow(listName: string, item: ListItem, itemNumber: number) {
+  const encodedName = encodeURIComponent(listName);
+  const assignee = item.assigned_to_name ? ` 👤${item.assigned_to_name}` : "";
+
+  return {
+    type: "box",
+    layout: "horizontal",
+    spacing: "sm",
+    contents: [
+      textComponent(`${itemNumber}.`, {
+        size: "sm",
+        color: COLOR_SUB,
+        flex: 0,
+        gravity: "center",
+      }),
+      textComponent(`${formatItem(item)}${assignee}`, {
+        size: "sm",
+        flex: 1,
+        gravity: "center",
+        ...(item.is_checked
+          ? { color: COLOR_CHECKED, decoration: "line-through" }
+          : {}),
+      }),
+      postbackButton(
+        item.is_checked ? "↩️" : "✔️",
+        `action=${
+          item.is_checked ? "uncheck_item" : "check_item"
+        }&list_name=${encodedName}&item_id=${item.id}`,
+        `おぼえるくん ${quoteArg(listName)} ${quoteArg(item.item_text)} ${
+          item.is_checked ? "チェック解除" : "チェック"
+        }`,
+        { style: "link", flex: 0 }
+      ),
+      postbackButton(
+        "🗑️",
+        `action=delete_item&list_name=${encodedName}&item_id=${item.id}`,
+        `おぼえるくん ${quoteArg(listName)} ${quoteArg(item.item_text)} 削除`,
+        { style: "link", flex: 0, color: COLOR_ALERT }
+      ),
+    ],
+  };
+}
+
+function sectionTitle(title: string) {
+  return textComponent(title, {
+    size: "xs",
+    weight: "bold",
+    color: COLOR_SUB,
+    margin: "md",
+  });
+}
+
+/**
+ * リストの中身をFlexメッセージにする（アイテムごとにチェック・削除ボタン付き）
+ * items は未チェック（売り場順）→ チェック済みの順に並んでいる前提で、番号は表示順
+ * 多いときは page ごとに分けて「もっと見る」で続きを出す
+ */
+export function buildListMessage(
+  list: List,
+  shared: boolean,
+  page: number = 0
+) {
+  const items = list.items || [];
+  const uncheckedItems = items.filter((item) => !item.is_checked);
+  const checkedItems = items.filter((item) => item.is_checked);
+  const hasSections = uncheckedItems.some((item) => item.section);
+  const start = page * MAX_ROWS_PER_BUBBLE;
+  const hasMore = start + MAX_ROWS_PER_BUBBLE < items.length;
+  const encodedName = encodeURIComponent(list.list_name);
+
+  const body: any[] = [];
+  let altText = `📋 【${list.list_name}】の中身${pageLabel(
+    page,
+    items.length
+  )}\n`;
+  let currentSection: string | null | undefined = undefined;
+
+  items.slice(start, start + MAX_ROWS_PER_BUBBLE).forEach((item, pageIndex) => {
+    const index = start + pageIndex;
+    if (item.is_checked && (pageIndex === 0 || !items[index - 1].is_checked)) {
+      body.push(sectionTitle("チェック済み ✅"));
+    } else if (
+      !item.is_checked &&
+      hasSections &&
+      item.section !== currentSection
+    ) {
+      currentSection = item.section;
+      body.push(sectionTitle(currentSection || "その他"));
+    }
+    body.push(itemRow(list.list_name, item, index + 1));
+    altText += `${index + 1}. ${item.is_checked ? "✅" : ""}${formatItem(
+      item
+    )}\n`;
+  });
+
+  if (hasMore) {
+    altText += `…ほか${items.length - start - MAX_ROWS_PER_BUBBLE}件\n`;
+  }
+
+  const subtitle = `未チェック ${uncheckedItems.length}件 / チェック済み ${
+    checkedItems.length
+  }件${shared ? " ・🔗共有中" : ""}${pageLabel(page, items.length)}`;
+
+  return {
+    type: "flex",
+    altText: toAltText(altText.trim()),
+    contents: {
+      type: "bubble",
+      header: header(`📋 ${list.list_name}`, subtitle),
+      body: {
+        type: "box",
+        layout: "vertical",
+        spacing: "sm",
+        contents: body,
+      },
+      footer: {
+        type: "box",
+        layout: "vertical",
+        contents: [
+          ...(hasMore
+            ? [
+                moreButton(
+                  `action=show_list&list_name=${encodedName}&page=${page + 1}`
+                ),
+              ]
+            : []),
+          postbackButton(
+            "➕ 追加",
+            `action=add_to_list&list_name=${encodedName}`,
+            `おぼえるくん ${quoteArg(list.list_name)} 追加`,
+            { style: "primary", color: COLOR_MAIN }
+          ),
+        ],
+      },
+    },
+  };
+}
+
+// ========== リマインダー ==========
+
+// スヌーズ・完了・変更・削除のボタン（期限が来ているものだけスヌーズを出す）
+// 繰り返しのリマインダーを詳細などから完了にすると繰り返しも終わるので、そうと分かる名前のボタンにする
+function reminderActions(
+  reminder: Reminder,
+  due: boolean,
+  completeScope: CompleteScope
+) {
+  const encodedName = encodeURIComponent(reminder.reminder_name);
+  const buttons: any[] = [];
+
+  if (due) {
+    buttons.push({
+      type: "box",
+      layout: "horizontal",
+      spacing: "sm",
+      contents: [
+        postbackButton(
+          "⏰ 30分後",
+          `action=snooze&reminder_id=${reminder.id}&minutes=30`,
+          undefined,
+          { style: "secondary" }
+        ),
+        postbackButton(
+          "⏰ 1時間後",
+          `action=snooze&reminder_id=${reminder.id}&minutes=60`,
+          undefined,
+          { style: "secondary" }
+        ),
+        postbackButton(
+          "⏰ 3時間後",
+          `action=snooze&reminder_id=${reminder.id}&minutes=180`,
+          undefined,
+          { style: "secondary" }
+        ),
+      ],
+    });
+  }
+
+  buttons.push(
+    postbackButton(
+      completeScope === "series" && reminder.repeat_pattern
+        ? "⏹️ 繰り返しを終了"
+        : "✅ 完了",
+      `action=complete&reminder_id=${reminder.id}&scope=${completeScope}`,
+      undefined,
+      { style: "primary", color: COLOR_MAIN }
+    ),
+    {
+      type: "box",
+      layout: "horizontal",
+      spacing: "sm",
+      contents: [
+        postbackButton(
+          "✏️ 変更",
+          `action=edit_reminder&reminder_name=${encodedName}`,
+          `おしえてくん ${quoteArg(reminder.reminder_name)} 変更`,
+          { style: "link" }
+        ),
+        postbackButton(
+          "🗑️ 削除",
+          `action=delete_reminder&reminder_name=${encodedName}`,
+          `おしえてくん ${quoteArg(reminder.reminder_name)} 削除`,
+          { style: "link", color: COLOR_ALERT }
+        ),
+      ],
+    }
+  );
+
+  return {
+    type: "box",
+    layout: "vertical",
+    spacing: "sm",
+    contents: buttons,
+  };
+}
+
+function reminderInfo(reminder: Reminder) {
+  const remindAt = new Date(reminder.remind_at);
+  return [
+    textComponent(`${priorityMark(reminder.priority)}${reminder.message}`, {
+      weight: "bold",
+      size: "md",
+    }),
+    {
+      type: "box",
+      layout: "vertical",
+      spacing: "sm",
+      margin: "lg",
+      contents: [
+        labeledRow(
+          "日時",
+          `${formatDateTime(remindAt)}（${getRelativeTime(remindAt)}）`,
+          reminder.status === "pending" ? COLOR_ALERT : undefined
+        ),
+        labeledRow("繰り返し", repeatLabel(reminder.repeat_pattern)),
+        ...(reminder.repeat_pattern
+          ? [labeledRow("見逃し", missedPolicyLabel(reminder.missed_policy))]
+          : []),
+        labeledRow("優先度", priorityLabel(reminder.priority)),
+        ...(nagPolicyLabel(reminder)
+          ? [labeledRow("催促", nagPolicyLabel(reminder)!)]
+          : []),
+        ...(reminder.advance_notices && reminder.advance_notices.length > 0
+          ? [
+              labeledRow(
+                "事前通知",
+                advanceNoticesLabel(reminder.advance_notices)
+              ),
+            ]
+          : []),
+      ],
+    },
+  ];
+}
+
+/**
+ * リマインダー詳細のFlexメッセージ
+ */
+export function buildReminderMessage(reminder: Reminder) {
+  const due = reminder.status === "pending";
+  const remindAt = new Date(reminder.remind_at);
+
+  return {
+    type: "flex",
+    altText: toAltText(
+      `⏰ ${priorityMark(reminder.priority)}${
+        reminder.message
+      }\n${formatDateTime(remindAt)}（${getRelativeTime(remindAt)}）`
+    ),
+    contents: {
+      type: "bubble",
+      header: header(
+        "⏰ リマインダー詳細",
+        due ? "⚠️ 期限を過ぎているよ" : undefined
+      ),
+      body: {
+        type: "box",
+        layout: "vertical",
+        contents: reminderInfo(reminder),
+      },
+      footer: reminderActions(reminder, due, "series"),
+    },
+  };
+}
+
+// 通知に添える関連リストの中身（未チェックのアイテム）
+function relatedListsSection(relatedLists: List[]): {
+  contents: any[];
+  altText: string;
+} {
+  if (relatedLists.length === 0) {
+    return { contents: [], altText: "" };
+  }
+
+  const contents: any[] = [
+    { type: "separator", margin: "lg" },
+    sectionTitle("📋 関連リスト"),
+  ];
+  let altText = "\n\n📋 関連リスト\n";
+
+  for (const list of relatedLists) {
+    const items = list.items || [];
+    contents.push(
+      textComponent(`【${list.list_name}】`, {
+        size: "sm",
+        weight: "bold",
+        margin: "sm",
+      })
+    );
+    items.slice(0, MAX_ROWS_PER_BUBBLE).forEach((item) => {
+      contents.push(textComponent(`・${formatItem(item)}`, { size: "sm" }));
+    });
+    if (items.length > MAX_ROWS_PER_BUBBLE) {
+      contents.push(
+        textComponent(`…ほか${items.length - MAX_ROWS_PER_BUBBLE}件`, {
+          size: "xs",
+          color: COLOR_SUB,
+        })
+      );
+    }
+    altText += `\n【${list.list_name}】\n${items
+      .map((item) => `  ・${formatItem(item)}`)
+      .join("\n")}\n`;
+  }
+
+  return { contents, altText };
+}
+
+/**
+ * リマインド通知のFlexメッセージ（リマインド文に名前が含まれるリストの中身も一緒に出す）
+ * nag は完了されていないものを催促するとき（何回目か・最大何回か）
+ */
+export function buildReminderNotification(
+  reminder: Reminder,
+  relatedLists: List[],
+  nag?: { count: number; max: number | null }
+) {
+  const related = relatedListsSection(relatedLists);
+  // 催促では、繰り返しで次の回に進んだ remind_at ではなくお知らせした回の日時を出す
+  const notified =
+    nag && reminder.notified_occurrence_at
+      ? {
+          ...reminder,
+          remind_at: reminder.notified_occurrence_at,
+          status: "pending",
+        }
+      : reminder;
+  const body: any[] = [...reminderInfo(notified), ...related.contents];
+  const subtitle = nag ? nagSubtitle(nag.count, nag.max) : undefined;
+  const altText = `⏰ リマインダー${subtitle ? `\n${subtitle}` : ""}\n\n${
+    reminder.message
+  }${related.altText}`;
+
+  return {
+    type: "flex",
+    altText: toAltText(altText.trim()),
+    contents: {
+      type: "bubble",
+      header: header("⏰ リマインダー", subtitle),
+      body: {
+        type: "box",
+        layout: "vertical",
+        contents: body,
+      },
+      footer: reminderActions(reminder, true, "occurrence"),
+    },
+  };
+}
+
+/**
+ * 事前通知のFlexメッセージ（「1時間前のお知らせ」。スヌーズはまだできないので完了・詳細だけ）
+ */
+export function buildAdvanceNotice(
+  reminder: Reminder,
+  leadMinutes: number,
+  relatedLists: List[]
+) {
+  const related = relatedListsSection(relatedLists);
+  const remindAt = new Date(reminder.remind_at);
+
+  return {
+    type: "flex",
+    altText: toAltText(
+      `🔔 ${leadTimeLabel(leadMinutes)}前のお知らせ\n\n${
+        reminder.message
+      }\n${formatDateTime(remindAt)}（${getRelativeTime(remindAt)}）${
+        related.altText
+      }`.trim()
+    ),
+    contents: {
+      type: "bubble",
+      header: header(
+        "🔔 もうすぐリマインド",
+        `${leadTimeLabel(leadMinutes)}前のお知らせだよ`
+      ),
+      body: {
+        type: "box",
+        layout: "vertical",
+        contents: [...reminderInfo(reminder), ...related.contents],
+      },
+      footer: reminderActions(reminder, false, "series"),
+    },
+  };
+}
+
+/**
+ * 優先度「低」のリマインダーをまとめたお知らせ（1件ずつ完了にできる）
+ */
+export function buildReminderDigest(reminders: Reminder[]) {
+  const body: any[] = [];
+  let altText = `🟢 まとめてお知らせ（${reminders.length}件）\n`;
+
+  reminders.slice(0, MAX_ROWS_PER_BUBBLE).forEach((reminder) => {
+    body.push({
+      type: "box",
+      layout: "horizontal",
+      spacing: "sm",
+      contents: [
+        {
+          type: "box",
+          layout: "vertical",
+          flex: 1,
+          contents: [
+            textComponent(reminder.message, { size: "sm" }),
+            textComponent(formatDateTime(new Date(reminder.remind_at)), {
+              size: "xxs",
+              color: COLOR_SUB,
+            }),
+          ],
+        },
+        postbackButton(
+          "✅ 完了",
+          `action=complete&reminder_id=${reminder.id}&scope=occurrence`,
+          undefined,
+          { style: "link", flex: 0 }
+        ),
+      ],
+    });
+    altText += `・${reminder.message}\n`;
+  });
+
+  if (reminders.length > MAX_ROWS_PER_BUBBLE) {
+    body.push(
+      textComponent(`…ほか${reminders.length - MAX_ROWS_PER_BUBBLE}件`, {
+        size: "xs",
+        color: COLOR_SUB,
+      })
+    );
+  }
+
+  return {
+    type: "flex",
+    altText: toAltText(altText.trim()),
+    contents: {
+      type: "bubble",
+      header: header(
+        "🟢 まとめてお知らせ",
+        `優先度「低」 ${reminders.length}件`
+      ),
+      body: {
+        type: "box",
+        layout: "vertical",
+        spacing: "sm",
+        contents: body,
+      },
+    },
+  };
+}
+
+function reminderRow(reminder: Reminder, itemNumber: number | null) {
+  const label = itemNumber === null ? "・" : `${itemNumber}.`;
+  const completed = reminder.status === "completed";
+
+  return {
+    type: "box",
+    layout: "horizontal",
+    spacing: "sm",
+    contents: [
+      textComponent(label, {
+        size: "sm",
+        color: COLOR_SUB,
+        flex: 0,
+        gravity: "center",
+      }),
+      {
+        type: "box",
+        layout: "vertical",
+        flex: 1,
+        contents: [
+          textComponent(
+            `${priorityMark(reminder.priority)}${reminder.message}`,
+            {
+              size: "sm",
+              ...(completed
+                ? { color: COLOR_CHECKED, decoration: "line-through" }
+                : {}),
+            }
+          ),
+          textComponent(formatDateTime(new Date(reminder.remind_at)), {
+            size: "xxs",
+            color: reminder.status === "pending" ? COLOR_ALERT : COLOR_SUB,
+          }),
+        ],
+      },
+      ...(completed
+        ? []
+        : [
+            postbackButton(
+              "詳細",
+              `action=show_reminder&reminder_name=${encodeURIComponent(
+                reminder.reminder_name
+              )}`,
+              `おしえてくん ${quoteArg(reminder.reminder_name)}`,
+              { style: "link", flex: 0 }
+            ),
+          ]),
+    ],
+  };
+}
+
+/**
+ * リマインダー一覧のFlexメッセージ（未完了・期限超過には通し番号をふる）
+ * 多いときは page ごとに分けて「もっと見る」で続きを出す
+ */
+export function buildReminderListMessage(
+  categorized: CategorizedReminders,
+  page: number = 0
+) {
+  const groups: { title: string; reminders: Reminder[]; numbered: boolean }[] =
+    [
+      { title: "未完了", reminders: categorized.active, numbered: true },
+      {
+        title: "期限超過 ⚠️",
+        reminders: categorized.pending,
+        numbered: true,
+      },
+      {
+        title: "完了済み ✅",
+        reminders: categorized.completed,
+        numbered: false,
+      },
+    ];
+
+  // 見出しをまたいで通し番号をふってから、ページの分だけ取り出す
+  let itemNumber = 1;
+  const rows = groups.flatMap((group) =>
+    group.reminders.map((reminder) => ({
+      title: group.title,
+      reminder,
+      number: group.numbered ? itemNumber++ : null,
+    }))
+  );
+
+  const start = page * MAX_ROWS_PER_BUBBLE;
+  const pageRows = rows.slice(start, start + MAX_ROWS_PER_BUBBLE);
+  const hasMore = start + MAX_ROWS_PER_BUBBLE < rows.length;
+
+  const body: any[] = [];
+  let altText = `⏰ リマインダー一覧${pageLabel(page, rows.length)}\n`;
+
+  pageRows.forEach((row, index) => {
+    if (index === 0 || pageRows[index - 1].title !== row.title) {
+      body.push(sectionTitle(row.title));
+      altText += `【${row.title}】\n`;
+    }
+    body.push(reminderRow(row.reminder, row.number));
+    altText += `${row.number === null ? "・" : `${row.number}. `}${priorityMark(
+      row.reminder.priority
+    )}${row.reminder.message}\n`;
+  });
+
+  return {
+    type: "flex",
+    altText: toAltText(altText.trim()),
+    contents: {
+      type: "bubble",
+      header: header(
+        "⏰ リマインダー一覧",
+        `未完了 ${categorized.active.length}件 / 期限超過 ${
+          categorized.pending.length
+        }件${pageLabel(page, rows.length)}`
+      ),
+      body: {
+        type: "box",
+        layout: "vertical",
+        spacing: "sm",
+        contents: body,
+      },
+      ...(hasMore
+        ? {
+            footer: {
+              type: "box",
+              layout: "vertical",
+              contents: [moreButton(`action=reminder_index&page=${page + 1}`)],
+            },
+          }
+        : {}),
+    },
+  };
+}
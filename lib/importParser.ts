@@ -0,0 +1,42 @@
+// lib/importParser.ts
+
+// 行頭の箇条書き記号（「- [ ]」のようなチェックボックスも含む）
+// （「★卵」のように見出しでない行の ■★ なども箇条書きの記号として扱う）
+const BULLET_PATTERN =
+  /^(?:[-*+・･•●○◯◎◦▪▫✓✔☐☑□→＊＋ー－■◆◇▼▽★☆]\s*)?(?:\[[ xX✓]?\]\s*)?/;
+
+// 行頭の番号（"1." "1)" "(1)" "①" "1、" など。"1.5L" のような数字の続きは番号とみなさない）
+const NUMBER_PATTERN =
+  /^(?:\d{1,3}[.)）、．](?!\d)|[（(]\d{1,3}[）)]|[①-⑳])\s*/;
+
+// 「材料（2人分）」のような見出しの言葉
+const HEADER_WORDS = "(?:材料|買うもの|用意するもの)(?:[（(][^）)]*[）)])?";
+
+// 見出しとして読み飛ばす行
+const HEADER_PATTERNS = [
+  /^#{1,6}\s/, // Markdown の見出し
+  /^【[^】]*】$/, // 【材料】
+  /^[<＜〈《][^>＞〉》]*[>＞〉》]$/, // ＜材料＞
+  new RegExp(`^[■◆◇▼▽★☆]\\s*(?:${HEADER_WORDS})?$`), // ■材料（2人分）
+  /^[■◆◇▼▽★☆].*[:：]$/, // ■野菜：
+  /^[-=_━─~〜]{3,}$/, // 区切り線
+  new RegExp(`^${HEADER_WORDS}$`), // 材料（2人分）
+];
+
+/**
+ * 貼り付けられたテキストをアイテムの行に分ける
+ * - 「・」「- 」「1.」「①」「- [ ]」などの行頭記号を取り除く
+ * - 「【材料】」「■材料（2人分）」「# 見出し」などの見出し行は読み飛ばす（「★卵」は記号を取り除いたアイテム）
+ * - 「野菜:」のような売り場の見出しはそのまま残す（追加時に売り場として扱う）
+ * 例: "【材料】\n・卵 2個\n1. 牛乳 200ml" → ["卵 2個", "牛乳 200ml"]
+ */
+export function parseImportedLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !HEADER_PATTERNS.some((p) => p.test(line)))
+    .map((line) =>
+      line.replace(NUMBER_PATTERN, "").replace(BULLET_PATTERN, "").trim()
+    )
+    .filter((line) => line);
+}
@@ -0,0 +1,129 @@
+// lib/itemParser.ts
+
+export interface ParsedItem {
+  section: string | null;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  note: string | null;
+}
+
+// 数量のあとに続く単位として認識するもの
+const UNITS = [
+  "パック",
+  "人前",
+  "切れ",
+  "個",
+  "つ",
+  "本",
+  "枚",
+  "袋",
+  "箱",
+  "缶",
+  "瓶",
+  "玉",
+  "束",
+  "房",
+  "尾",
+  "匹",
+  "株",
+  "丁",
+  "杯",
+  "合",
+  "食",
+  "錠",
+  "包",
+  "足",
+  "組",
+  "台",
+  "冊",
+  "着",
+  "kg",
+  "mg",
+  "ml",
+  "mL",
+  "cc",
+  "g",
+  "L",
+  "l",
+];
+
+const UNIT_PATTERN = UNITS.join("|");
+
+// 英字の x/X は "Box 2" の x のような語末を取らないよう、前に空白があるときだけ区切りとみなす
+const QUANTITY_PATTERN = new RegExp(
+  `^(.+?)(\\s+[xX]\\s*|\\s*[×*＊]\\s*|\\s+)?(\\d+(?:\\.\\d+)?)\\s*(${UNIT_PATTERN})?$`
+);
+
+// "野菜: にんじん" のような売り場・分類の指定（数字だけのものは時刻などとみなす）
+const SECTION_PATTERN = /^([^:：\d\s（(][^:：\s（(]{0,14})\s*[:：]\s*(.*)$/;
+
+/**
+ * アイテムの入力から売り場・名前・数量・単位・メモを取り出す
+ * 対応形式: "卵 2パック", "牛乳 1L（低脂肪）", "りんご×3", "野菜: にんじん 2本" など
+ * "野菜:" だけの行は name が空になる（以降の行の見出しとして使う）
+ */
+export function parseItemText(text: string): ParsedItem {
+  let rest = text.trim();
+
+  // 0. 先頭の「売り場:」
+  let section: string | null = null;
+  const sectionMatch = rest.match(SECTION_PATTERN);
+  if (sectionMatch) {
+    section = sectionMatch[1].trim();
+    rest = sectionMatch[2];
+  }
+
+  rest = rest
+    // 全角数字は半角に揃える
+    .replace(/[０-９]/g, (char) =>
+      String.fromCharCode(char.charCodeAt(0) - 0xfee0)
+    )
+    .replace(/．/g, ".");
+
+  // 1. カッコ書きはメモとして扱う
+  let note: string | null = null;
+  const noteMatch = rest.match(/[（(]([^）)]*)[）)]/);
+  if (noteMatch) {
+    note = noteMatch[1].trim() || null;
+    rest = rest.replace(noteMatch[0], " ").trim();
+  }
+
+  // 2. 末尾の数量と単位
+  //    （区切りも単位もない "iPhone15" のようなものは名前の一部とみなす）
+  const quantityMatch = rest.match(QUANTITY_PATTERN);
+  if (quantityMatch && (quantityMatch[2] || quantityMatch[4])) {
+    return {
+      section,
+      name: quantityMatch[1].trim(),
+      quantity: parseFloat(quantityMatch[3]),
+      unit: quantityMatch[4] || null,
+      note,
+    };
+  }
+
+  return { section, name: rest, quantity: null, unit: null, note };
+}
+
+/**
+ * アイテムを表示用の文字列にする
+ * 例: "卵 2パック", "牛乳 1L（低脂肪）", "りんご ×3"
+ */
+export function formatItem(item: {
+  item_text: string;
+  quantity?: number | null;
+  unit?: string | null;
+  note?: string | null;
+}): string {
+  let text = item.item_text;
+
+  if (item.quantity !== null && item.quantity !== undefined) {
+    text += item.unit ? ` ${item.quantity}${item.unit}` : ` ×${item.quantity}`;
+  }
+
+  if (item.note) {
+    text += `（${item.note}）`;
+  }
+
+  return text;
+}
@@ -0,0 +1,105 @@
+// lib/listExporter.ts
+import type { List, ListItem } from "@/lib/db";
+import { formatItem } from "@/lib/itemParser";
+
+export type ExportFormat = "text" | "csv" | "markdown";
+
+// コマンドで指定できる形式名 → 形式
+const FORMAT_NAMES: Record<string, ExportFormat> = {
+  テキスト: "text",
+  text: "text",
+  txt: "text",
+  csv: "csv",
+  マークダウン: "markdown",
+  markdown: "markdown",
+  md: "markdown",
+};
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  text: "テキスト",
+  csv: "CSV",
+  markdown: "Markdown",
+};
+
+/**
+ * 「CSV」「マークダウン」などの指定を形式に変換（省略時はテキスト）
+ */
+export function parseExportFormat(name?: string): ExportFormat | null {
+  if (!name) {
+    return "text";
+  }
+  return FORMAT_NAMES[name.normalize("NFKC").toLowerCase()] ?? null;
+}
+
+// 売り場ごとに並べ直す（未チェック → チェック済みの順は保つ）
+function groupBySection(items: ListItem[]): [string | null, ListItem[]][] {
+  if (!items.some((item) => item.section)) {
+    return [[null, items]];
+  }
+
+  const groups = new Map<string | null, ListItem[]>();
+  for (const item of items) {
+    const key = item.section || null;
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+  return Array.from(groups.entries());
+}
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * リストをコピーしやすい文字列にする
+ * - text: 「・卵 2パック」の箇条書き（「野菜:」の見出しはそのまま追加し直せる）
+ * - csv: 表計算ソフト向け（1行目は見出し）
+ * - markdown: 「- [ ] 卵」のチェックリスト
+ */
+export function exportList(list: List, format: ExportFormat): string {
+  const items = list.items || [];
+  const groups = groupBySection(items);
+  const hasSections = items.some((item) => item.section);
+
+  if (format === "csv") {
+    const rows = [
+      ["アイテム", "数量", "単位", "メモ", "売り場", "チェック", "担当"],
+      ...items.map((item) => [
+        item.item_text,
+        item.quantity,
+        item.unit,
+        item.note,
+        item.section,
+        item.is_checked ? "済" : "",
+        item.assigned_to_name,
+      ]),
+    ];
+    return rows.map((row) => row.map(csvField).join(",")).join("\n");
+  }
+
+  const lines: string[] = [];
+
+  if (format === "markdown") {
+    lines.push(`## ${list.list_name}`);
+    for (const [section, sectionItems] of groups) {
+      if (hasSections) {
+        lines.push("", `### ${section || "その他"}`);
+      }
+      for (const item of sectionItems) {
+        lines.push(`- [${item.is_checked ? "x" : " "}] ${formatItem(item)}`);
+      }
+    }
+    return lines.join("\n");
+  }
+
+  lines.push(`【${list.list_name}】`);
+  for (const [section, sectionItems] of groups) {
+    if (hasSections) {
+      lines.push(`${section || "その他"}:`);
+    }
+    for (const item of sectionItems) {
+      lines.push(`${item.is_checked ? "✓" : "・"}${formatItem(item)}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,97 @@
+// lib/messageSplitter.ts
+
+// LINEの仕様上の上限
+export const MAX_TEXT_LENGTH = 5000;
+export const MAX_MESSAGES_PER_REQUEST = 5;
+
+/**
+ * 長いテキストを上限以内に分割（なるべく改行の位置で区切る）
+ */
+export function splitText(
+  text: string,
+  limit: number = MAX_TEXT_LENGTH
+): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > limit) {
+    // 上限内で最後の改行で切る（改行がなければ上限ちょうどで切る）
+    let cut = rest.lastIndexOf("\n", limit);
+    if (cut <= 0) {
+      cut = limit;
+    }
+    chunks.push(rest.substring(0, cut).trimEnd());
+    rest = rest.substring(cut).replace(/^\n/, "");
+  }
+
+  if (rest.length > 0 || chunks.length === 0) {
+    chunks.push(rest);
+  }
+
+  return chunks;
+}
+
+/**
+ * 返信・プッシュするメッセージをLINEの上限（1通5000文字・1回5通）に収める
+ * - 長すぎるテキストは分割（クイックリプライは最後の1通に付ける）
+ * - 5通を超える場合は続きのテキストをまとめ、それでも多ければ省略した旨を表示する
+ */
+export function fitMessages(messages: any[]): any[] {
+  const split: any[] = [];
+
+  for (const message of messages) {
+    if (message.type !== "text" || message.text.length <= MAX_TEXT_LENGTH) {
+      split.push(message);
+      continue;
+    }
+
+    const { quickReply, ...rest } = message;
+    const chunks = splitText(message.text);
+    chunks.forEach((chunk, index) => {
+      const isLast = index === chunks.length - 1;
+      split.push({
+        ...rest,
+        text: chunk,
+        ...(isLast && quickReply ? { quickReply } : {}),
+      });
+    });
+  }
+
+  if (split.length <= MAX_MESSAGES_PER_REQUEST) {
+    return split;
+  }
+
+  // 隣り合うテキスト同士を上限内でまとめる（クイックリプライ付きのものはそのまま）
+  const merged: any[] = [];
+  for (const message of split) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      previous.type === "text" &&
+      message.type === "text" &&
+      !previous.quickReply &&
+      previous.text.length + message.text.length + 2 <= MAX_TEXT_LENGTH
+    ) {
+      merged[merged.length - 1] = {
+        ...message,
+        text: `${previous.text}\n\n${message.text}`,
+      };
+    } else {
+      merged.push(message);
+    }
+  }
+
+  if (merged.length <= MAX_MESSAGES_PER_REQUEST) {
+    return merged;
+  }
+
+  // それでも多い場合は最後の1通（ボタン付きのことが多い）を残し、間を省略したことを伝える
+  const kept = merged.slice(0, MAX_MESSAGES_PER_REQUEST - 2);
+  const omitted = merged.length - kept.length - 1;
+  console.warn(`[LINE] Omitted ${omitted} messages over the limit`);
+  return [
+    ...kept,
+    { type: "text", text: `…${omitted}件のメッセージを省略しました` },
+    merged[merged.length - 1],
+  ];
+}
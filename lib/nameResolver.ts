@@ -0,0 +1,119 @@
+// lib/nameResolver.ts
+import { normalizeText } from "@/lib/textNormalizer";
+
+// どの段階で見つかったか
+export type NameMatch = "exact" | "normalized" | "prefix" | "similar";
+
+export type NameResolution<T> =
+  | { status: "found"; value: T; match: NameMatch }
+  | { status: "not_found"; suggestions: T[] };
+
+/**
+ * 取り違えの心配がない一致（完全一致・表記揺れだけの違い）かどうか
+ * 削除や変更のように書き換えるコマンドは、これ以外なら確認してから実行する
+ */
+export function isConfidentMatch(match: NameMatch): boolean {
+  return match === "exact" || match === "normalized";
+}
+
+// 「もしかして」に出す最大数
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * 2つの文字列の編集距離（文字の挿入・削除・置換の回数）
+ */
+export function editDistance(a: string, b: string): number {
+  const source = Array.from(a);
+  const target = Array.from(b);
+  let previous = Array.from({ length: target.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[target.length];
+}
+
+/**
+ * 入力された名前から候補を探す
+ * 完全一致 → 表記揺れを除いて一致 → 前方一致 → 似た名前（編集距離）の順に試し、
+ * 前方一致・似た名前は候補が1つに絞れたときだけ採用する
+ * 見つからなければ近い名前を suggestions として返す
+ * 例: "買い物" → "買い物リスト"（前方一致）, "買物リスト" → "買い物リスト"（似た名前）
+ */
+export function resolveName<T>(
+  candidates: T[],
+  query: string,
+  getName: (candidate: T) => string
+): NameResolution<T> {
+  const exact = candidates.find((candidate) => getName(candidate) === query);
+  if (exact) {
+    return { status: "found", value: exact, match: "exact" };
+  }
+
+  const key = normalizeText(query);
+  const scored = candidates.map((candidate) => {
+    const name = normalizeText(getName(candidate));
+    return {
+      candidate,
+      name,
+      distance: editDistance(key, name),
+      prefix: name.startsWith(key),
+      contains: name.includes(key) || key.includes(name),
+    };
+  });
+
+  const normalized = scored.find((entry) => entry.name === key);
+  if (normalized) {
+    return {
+      status: "found",
+      value: normalized.candidate,
+      match: "normalized",
+    };
+  }
+
+  // 1文字だけの前方一致は当てずっぽうになりやすいので2文字以上から
+  const prefixMatches = scored.filter((entry) => entry.prefix);
+  if (Array.from(key).length >= 2 && prefixMatches.length === 1) {
+    return {
+      status: "found",
+      value: prefixMatches[0].candidate,
+      match: "prefix",
+    };
+  }
+
+  // 名前の長さの1/4くらいまでの打ち間違いは同じ名前とみなす
+  const threshold = Math.max(1, Math.floor(Array.from(key).length / 4));
+  const closest = Math.min(...scored.map((entry) => entry.distance));
+  const similarMatches = scored.filter(
+    (entry) => entry.distance === closest && entry.distance <= threshold
+  );
+  if (similarMatches.length === 1 && prefixMatches.length === 0) {
+    return {
+      status: "found",
+      value: similarMatches[0].candidate,
+      match: "similar",
+    };
+  }
+
+  // 含んでいるもの → 編集距離が近いものの順に「もしかして」
+  const suggestionLimit = Math.max(1, Math.ceil(Array.from(key).length / 2));
+  const suggestions = scored
+    .filter((entry) => entry.contains || entry.distance <= suggestionLimit)
+    .sort(
+      (a, b) =>
+        Number(b.contains) - Number(a.contains) || a.distance - b.distance
+    )
+    .slice(0, MAX_SUGGESTIONS)
+    .map((entry) => entry.candidate);
+
+  return { status: "not_found", suggestions };
+}
@@ -2,12 +2,12 @@
 
 /**
  * ユーザー入力から番号を柔軟に解析
- * 対応形式: "1 3", "1, 3", "1. 3.", "1\n3" など
+ * 対応形式: "1 3", "1, 3", "1. 3.", "1\n3", "1、3" など
  */
 export function parseNumbers(input: string): number[] {
-  // 1. 改行、カンマ、スペース、ピリオドを統一的な区切りとして扱う
+  // 1. 改行、カンマ、スペース、ピリオド（全角・読点も）を統一的な区切りとして扱う
   const cleaned = input
-    .replace(/[,.\n\s]+/g, " ") // 区切り文字をすべてスペースに統一
+    .replace(/[,.、，．\n\s]+/g, " ") // 区切り文字をすべてスペースに統一
     .trim();
 
   // 2. スペースで分割して数字のみを抽出
@@ -37,6 +37,7 @@ export function testNumberParser() {
     "1. 2. 3.", // => [1, 2, 3]
     "1 2 3 2 1", // => [1, 2, 3] (重複除去)
     " 1  ,  3  ", // => [1, 3] (スペース無視)
+    "1、3", // => [1, 3] (読点)
   ];
 
   testCases.forEach((input) => {
@@ -0,0 +1,280 @@
+// lib/reminderParser.ts
+import { tokenizeCommand, restOfCommand } from "@/lib/commandParser";
+import {
+  parseDateTime,
+  parseRepeat,
+  isDateExpression,
+  isRelativeTime,
+  isTimeExpression,
+} from "@/lib/dateParser";
+import { DEFAULT_NAG_INTERVAL_MINUTES, DEFAULT_NAG_MAX_COUNT } from "@/lib/db";
+import type { MissedPolicy, NagPolicy } from "@/lib/db";
+
+// リマインダーの変更内容（指定されなかった項目は undefined のまま）
+export interface ReminderChanges {
+  remindAt?: Date;
+  message?: string;
+  repeatPattern?: string | null; // null は繰り返しをやめる
+  priority?: string;
+  missedPolicy?: MissedPolicy;
+  advanceNotices?: number[]; // [] は事前通知をやめる
+  nag?: NagPolicy; // intervalMinutes が 0 なら催促しない
+}
+
+export type ParsedReminderChanges =
+  | { success: true; changes: ReminderChanges }
+  | { success: false; error: string };
+
+// 優先度の書き方（上から順に探して、最初に見つかったものを使う）
+const PRIORITY_MARKERS: [RegExp, string][] = [
+  [/優先度\s*[:：]?\s*高/, "high"],
+  [/優先度\s*[:：]?\s*中/, "medium"],
+  [/優先度\s*[:：]?\s*低/, "low"],
+  [/【(?:重要|至急)】/, "high"],
+  [/【低】/, "low"],
+  [/(?<=^|\s)(?:重要|至急|[!！]+)(?=\s|$)/, "high"], // 「重要」「!」だけの単語
+  [/(?<=^|\s)[!！]+(?=\S)/, "high"], // 「!提出」
+  [/(?<=^|\s)低め?(?=\s|$)/, "low"],
+];
+const NO_REPEAT_PATTERN = /繰り返し(?:なし|解除)/;
+// 見逃した回の扱い（「見逃し まとめて」「見逃し 全部」）
+const MISSED_POLICY_MARKERS: [RegExp, MissedPolicy][] = [
+  [/見逃し(?:は)?\s*(?:まとめて|まとめ)/, "summary"],
+  [/見逃し(?:は)?\s*(?:全部|ぜんぶ)/, "catch_up"],
+];
+
+/**
+ * 用件から優先度の目印を取り出す（目印は用件から取り除く）
+ * 例: "重要 書類を提出" → high, "!提出" → high, "低 本を返す" → low, "【至急】電話" → high
+ */
+export function parsePriority(text: string): {
+  priority: string | null;
+  text: string;
+} {
+  for (const [pattern, priority] of PRIORITY_MARKERS) {
+    if (pattern.test(text)) {
+      return {
+        priority,
+        text: text
+          .replace(pattern, "")
+          .replace(/\s{2,}/g, " ")
+          .trim(),
+      };
+    }
+  }
+  return { priority: null, text };
+}
+
+// 事前通知の書き方（「1日前と1時間前にも」「前日にもお知らせ」）
+// 「前日も残業」「1週間前もらった本」のような用件と取り違えないよう、「にも」「にお知らせ」の後は区切りか末尾に限る
+const LEAD_TIME = "(?:[0-9０-９]+\\s*(?:分|時間|日|週間)前|前日)";
+const ADVANCE_NOTICE_PATTERN = new RegExp(
+  `(${LEAD_TIME}(?:\\s*[と、・,]\\s*${LEAD_TIME})*)\\s*(?:にも(?:お知らせ|通知|知らせて)?|に(?:お知らせ|通知|知らせて))(?=\\s|$)`
+);
+const NO_ADVANCE_NOTICE_PATTERN = /事前通知(?:なし|解除)/;
+const LEAD_UNIT_MINUTES: Record<string, number> = {
+  分: 1,
+  時間: 60,
+  日: 24 * 60,
+  週間: 7 * 24 * 60,
+};
+
+/**
+ * 用件から事前通知を取り出す（何分前かを大きい順に。目印は用件から取り除く）
+ * 例: "歯医者 1日前と1時間前にも" → [1440, 60], "前日にもお知らせ 会議" → [1440]
+ */
+export function parseAdvanceNotices(text: string): {
+  advanceNotices: number[] | null;
+  text: string;
+} {
+  const match = text.match(ADVANCE_NOTICE_PATTERN);
+  if (!match) {
+    return { advanceNotices: null, text };
+  }
+
+  const minutes = (match[1].match(new RegExp(LEAD_TIME, "g")) || [])
+    .map((lead) => {
+      if (lead === "前日") {
+        return LEAD_UNIT_MINUTES["日"];
+      }
+      const [, amount, unit] = lead.match(/([0-9０-９]+)\s*(分|時間|日|週間)/)!;
+      return parseInt(amount.normalize("NFKC")) * LEAD_UNIT_MINUTES[unit];
+    })
+    .filter((lead) => lead > 0);
+
+  return {
+    advanceNotices: Array.from(new Set(minutes)).sort((a, b) => b - a),
+    text: text
+      .replace(match[0], "")
+      .replace(/\s{2,}/g, " ")
+      .trim(),
+  };
+}
+
+// 催促の書き方（「しつこく」「しつこく 30分おき 5回まで」「催促なし」）
+// 「催促メールを送る」「家賃の催促をする」のような用件と取り違えないよう、前後が区切りのときだけ
+const NO_NAG_PATTERN =
+  /(?:^|\s)(?:しつこく|催促)(?:モード)?\s*(?:なし|解除|オフ|しない)(?=\s|$)/;
+const NAG_PATTERN =
+  /(?:^|\s)(?:しつこく|催促)(?:モード)?(?:\s*([0-9０-９]+)\s*(分|時間)(?:おき|ごと|毎))?(?:\s*(?:最大)?\s*([0-9０-９]+)\s*回(?:まで)?)?(?=\s|$)/;
+
+/**
+ * 用件から催促の設定を取り出す（目印は用件から取り除く）
+ * 例: "薬を飲む しつこく" → 30分おき・最大5回, "しつこく 10分おき 3回まで" → 10分おき・最大3回
+ * 「しつこく なし」は催促しない（intervalMinutes が 0）
+ */
+export function parseNagPolicy(text: string): {
+  nag: NagPolicy | null;
+  text: string;
+} {
+  const off = text.match(NO_NAG_PATTERN);
+  const match = off || text.match(NAG_PATTERN);
+  if (!match) {
+    return { nag: null, text };
+  }
+
+  const rest = text
+    .replace(match[0], " ")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  if (off) {
+    return { nag: { intervalMinutes: 0, maxCount: 0 }, text: rest };
+  }
+
+  const [, amount, unit, count] = match;
+  const intervalMinutes = amount
+    ? parseInt(amount.normalize("NFKC")) * (unit === "時間" ? 60 : 1)
+    : DEFAULT_NAG_INTERVAL_MINUTES;
+  const maxCount = count
+    ? parseInt(count.normalize("NFKC"))
+    : DEFAULT_NAG_MAX_COUNT;
+  return {
+    nag: {
+      intervalMinutes: Math.max(1, intervalMinutes),
+      maxCount: Math.max(1, maxCount),
+    },
+    text: rest,
+  };
+}
+
+/**
+ * 繰り返しの見逃した回の扱いを取り出す（目印は用件から取り除く）
+ * 例: "毎日 薬を飲む 見逃し 全部" → catch_up
+ */
+export function parseMissedPolicy(text: string): {
+  missedPolicy: MissedPolicy | null;
+  text: string;
+} {
+  for (const [pattern, missedPolicy] of MISSED_POLICY_MARKERS) {
+    if (pattern.test(text)) {
+      return {
+        missedPolicy,
+        text: text
+          .replace(pattern, "")
+          .replace(/\s{2,}/g, " ")
+          .trim(),
+      };
+    }
+  }
+  return { missedPolicy: null, text };
+}
+
+/**
+ * 「明日 10時 歯医者に行く 毎週 優先度 高」のような変更内容を読み取る
+ * - 先頭が日付・時刻なら日時の変更（時刻だけなら次のその時刻、日付だけなら朝9時）
+ * - 「毎日」「毎週月水金」「毎月末」などや「繰り返しなし」で繰り返しの変更
+ * - 「優先度 高 / 中 / 低」「重要」「!」「低」で優先度の変更
+ * - 「見逃し まとめて / 全部」で見逃した回の扱いの変更
+ * - 「1日前と1時間前にも」や「事前通知なし」で事前通知の変更
+ * - 「しつこく 30分おき 5回まで」や「しつこく なし」で催促の変更
+ * - 残りの文字は新しい用件
+ */
+export function parseReminderChanges(text: string): ParsedReminderChanges {
+  const parts = tokenizeCommand(text);
+  const changes: ReminderChanges = {};
+  let rest = text.trim();
+
+  if (parts.length > 0 && isDateExpression(parts[0])) {
+    // 「1時間後」は時刻まで決まるので後ろの時刻は見ない
+    const hasTime =
+      !isRelativeTime(parts[0]) &&
+      parts.length > 1 &&
+      isTimeExpression(parts[1]);
+    const parsed = parseDateTime(parts[0], hasTime ? parts[1] : undefined);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error || "日時がよくわからなかった😅",
+      };
+    }
+    changes.remindAt = parsed.date;
+    rest = restOfCommand(text, hasTime ? 2 : 1);
+  } else if (parts.length > 0 && isTimeExpression(parts[0])) {
+    const parsed = parseDateTime("今日", parts[0]);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error || "日時がよくわからなかった😅",
+      };
+    }
+    changes.remindAt = parsed.date;
+    rest = restOfCommand(text, 1);
+  }
+
+  const { priority, text: withoutPriority } = parsePriority(rest);
+  if (priority) {
+    changes.priority = priority;
+    rest = withoutPriority;
+  }
+
+  if (NO_ADVANCE_NOTICE_PATTERN.test(rest)) {
+    changes.advanceNotices = [];
+    rest = rest.replace(NO_ADVANCE_NOTICE_PATTERN, "");
+  } else {
+    const { advanceNotices, text: withoutAdvanceNotices } =
+      parseAdvanceNotices(rest);
+    if (advanceNotices) {
+      changes.advanceNotices = advanceNotices;
+      rest = withoutAdvanceNotices;
+    }
+  }
+
+  const { missedPolicy, text: withoutMissedPolicy } = parseMissedPolicy(rest);
+  if (missedPolicy) {
+    changes.missedPolicy = missedPolicy;
+    rest = withoutMissedPolicy;
+  }
+
+  // 「5回まで」を繰り返しの回数と取り違えないよう、繰り返しより先に読む
+  const { nag, text: withoutNag } = parseNagPolicy(rest);
+  if (nag) {
+    changes.nag = nag;
+    rest = withoutNag;
+  }
+
+  if (NO_REPEAT_PATTERN.test(rest)) {
+    changes.repeatPattern = null;
+    rest = rest.replace(NO_REPEAT_PATTERN, "");
+  } else {
+    const { pattern, text: withoutRepeat } = parseRepeat(rest);
+    if (pattern) {
+      changes.repeatPattern = pattern;
+      rest = withoutRepeat;
+    }
+  }
+
+  rest = rest.trim();
+  if (rest) {
+    changes.message = rest;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return {
+      success: false,
+      error:
+        "何を変えるか教えてね📝\n例：「明日 10時」「毎週」「優先度 高」「1日前にも」「新しい用件」",
+    };
+  }
+
+  return { success: true, changes };
+}
@@ -0,0 +1,119 @@
+-- lib/schema.sql
+-- 既存テーブル（lists / list_items / reminders）への追加分
+-- 何度実行しても大丈夫なように IF NOT EXISTS で書いておく
+
+-- ========== リストアイテムのチェック状態 ==========
+
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS is_checked BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS checked_at TIMESTAMP;
+
+-- ========== リストアイテムの数量・単位・メモ ==========
+
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS quantity DOUBLE PRECISION;
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS note TEXT;
+
+-- ========== リストのテンプレート ==========
+
+ALTER TABLE lists ADD COLUMN IF NOT EXISTS is_template BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ========== リストの共有 ==========
+
+ALTER TABLE lists ADD COLUMN IF NOT EXISTS share_code TEXT UNIQUE;
+
+CREATE TABLE IF NOT EXISTS list_shares (
+  list_id INTEGER NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+  room_id TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (list_id, room_id)
+);
+
+-- ========== リストアイテムの売り場と並び順 ==========
+
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS section TEXT;
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS position INTEGER;
+
+-- 既存のアイテムは作成順に並べておく
+UPDATE list_items SET position = id WHERE position IS NULL;
+
+-- ルームごとに覚えたアイテム → 売り場の対応（item_key は表記揺れを除いたアイテム名）
+CREATE TABLE IF NOT EXISTS item_sections (
+  room_id TEXT NOT NULL,
+  item_key TEXT NOT NULL,
+  section TEXT NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (room_id, item_key)
+);
+
+-- ========== リストアイテムの追加者と担当者（LINEのuserId） ==========
+
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS added_by TEXT;
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS assigned_to TEXT;
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS assigned_to_name TEXT;
+
+-- ========== ゴミ箱（削除日時が入っているものはゴミ箱の中） ==========
+
+ALTER TABLE lists ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+-- ========== 操作履歴（「元に戻す」用） ==========
+
+CREATE TABLE IF NOT EXISTS operation_journal (
+  id SERIAL PRIMARY KEY,
+  room_id TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  undone_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS operation_journal_room_idx ON operation_journal (room_id, created_at);
+
+-- ========== リスト一覧のピン留めと並び順 ==========
+
+-- ルームごとのピン留めと手動の並び順（共有リストはルームごとに並べられる）
+CREATE TABLE IF NOT EXISTS list_orders (
+  room_id TEXT NOT NULL,
+  list_id INTEGER NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+  is_pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  position INTEGER,
+  PRIMARY KEY (room_id, list_id)
+);
+
+-- ルームごとの設定（list_order は created / recent / manual）
+CREATE TABLE IF NOT EXISTS room_settings (
+  room_id TEXT PRIMARY KEY,
+  list_order TEXT NOT NULL DEFAULT 'created',
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ========== リマインダーの優先度（高は完了まで再通知、低はまとめて通知） ==========
+
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS last_notified_at TIMESTAMP;
+
+-- ========== 繰り返しリマインダーの見逃した回の扱い ==========
+
+-- summary: 見逃した回はまとめて1回だけ知らせる / catch_up: 見逃した回も1回ずつ知らせる
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS missed_policy TEXT NOT NULL DEFAULT 'summary';
+
+-- ========== リマインダーの事前通知（「1日前と1時間前にも」） ==========
+
+-- advance_notices: 何分前に知らせるか / advance_notices_sent: 今の remind_at に対して送った（過ぎた）もの
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS advance_notices INTEGER[] NOT NULL DEFAULT '{}';
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS advance_notices_sent INTEGER[] NOT NULL DEFAULT '{}';
+
+-- ========== 完了されるまで催促する（しつこくモード） ==========
+
+-- nag_interval_minutes: 催促の間隔（NULL はルームの設定、0 は催促しない） / nag_count: 今のお知らせのあと催促した回数
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS nag_interval_minutes INTEGER;
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS nag_max_count INTEGER;
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS nag_count INTEGER NOT NULL DEFAULT 0;
+-- awaiting_ack: お知らせした回がまだ完了・スヌーズされていない（繰り返しで次の回に進んでも、前の回の催促を続けるため）
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS awaiting_ack BOOLEAN NOT NULL DEFAULT FALSE;
+-- notified_occurrence_at: お知らせした回の日時（繰り返しで remind_at が次の回に進んでも、催促ではこの回を出す）
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS notified_occurrence_at TIMESTAMP;
+
+-- ルームの催促の設定（NULL は設定なし）
+ALTER TABLE room_settings ADD COLUMN IF NOT EXISTS nag_interval_minutes INTEGER;
+ALTER TABLE room_settings ADD COLUMN IF NOT EXISTS nag_max_count INTEGER;
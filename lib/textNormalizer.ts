@@ -0,0 +1,72 @@
+// lib/textNormalizer.ts
+
+// 漢字表記とひらがな表記の揺れ（買い物でよく使うものだけ）
+const READINGS: Record<string, string> = {
+  卵: "たまご",
+  玉子: "たまご",
+  牛乳: "ぎゅうにゅう",
+  葱: "ねぎ",
+  人参: "にんじん",
+  玉葱: "たまねぎ",
+  馬鈴薯: "じゃがいも",
+  胡瓜: "きゅうり",
+  茄子: "なす",
+  大根: "だいこん",
+  白菜: "はくさい",
+  豆腐: "とうふ",
+  納豆: "なっとう",
+  醤油: "しょうゆ",
+  味噌: "みそ",
+  砂糖: "さとう",
+  塩: "しお",
+  酢: "す",
+  米: "こめ",
+  お米: "おこめ",
+  林檎: "りんご",
+  蜜柑: "みかん",
+  苺: "いちご",
+  麺: "めん",
+  饂飩: "うどん",
+  蕎麦: "そば",
+  鶏肉: "とりにく",
+  豚肉: "ぶたにく",
+  牛肉: "ぎゅうにく",
+  挽肉: "ひきにく",
+  電池: "でんち",
+  洗剤: "せんざい",
+};
+
+// 「卵焼き」「卵 10個」のような語の一部にも当てるため、長い表記から順に置き換える
+const READING_PATTERN = new RegExp(
+  Object.keys(READINGS)
+    .sort((a, b) => b.length - a.length)
+    .join("|"),
+  "g"
+);
+
+/**
+ * 表記揺れを吸収した比較用の文字列を作る
+ * - 全角英数字・半角カナの統一（NFKC）
+ * - カタカナ → ひらがな
+ * - 大文字 → 小文字
+ * - 空白の除去
+ * - 漢字表記 → ひらがな（語の一部も置き換える）
+ * 例: "たまご", "タマゴ", "ﾀﾏｺﾞ", "卵" → "たまご"、"卵焼き" → "たまご焼き"
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/[ァ-ヶ]/g, (char) =>
+      String.fromCharCode(char.charCodeAt(0) - 0x60)
+    )
+    .toLowerCase()
+    .replace(/\s+/g, "")
+    .replace(READING_PATTERN, (word) => READINGS[word]);
+}
+
+/**
+ * 表記揺れを無視して同じ文字列かどうか
+ */
+export function isSameText(a: string, b: string): boolean {
+  return normalizeText(a) === normalizeText(b);
+}